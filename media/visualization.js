@@ -8,6 +8,7 @@
     let deleteMode = false;
     let selectedNode = null;
     let selectedEdge = null;
+    let tagFilter = '';
 
     function initVisualization() {
         const container = d3.select('#visualization');
@@ -72,6 +73,11 @@
             svg.classed('delete-mode', deleteMode);
         });
 
+        document.getElementById('tagFilter').addEventListener('change', event => {
+            tagFilter = event.target.value;
+            applyTagFilter();
+        });
+
         document.getElementById('saveBtn').addEventListener('click', () => {
             vscode.postMessage({
                 command: 'saveData',
@@ -163,6 +169,11 @@
                 .on('drag', dragged)
                 .on('end', dragended));
 
+        // 书签节点悬停时显示所在位置（范围书签显示起止行）
+        node.filter(d => d.span)
+            .append('title')
+            .text(d => `${d.label}\n${d.span}`);
+
         // 添加节点标签
         const nodeLabel = svg.append('g')
             .selectAll('text')
@@ -203,6 +214,28 @@
         });
     }
 
+    // 更新标签下拉框：列出所有书签节点的标签，保留当前选择（该标签已不存在时恢复为全部）
+    function updateTagOptions() {
+        const tags = Array.from(new Set(currentData.nodes.flatMap(n => n.tags || []))).sort();
+        if (!tags.includes(tagFilter)) {
+            tagFilter = '';
+        }
+        const select = document.getElementById('tagFilter');
+        select.innerHTML = '';
+        select.appendChild(new Option('全部标签', ''));
+        tags.forEach(tag => select.appendChild(new Option('#' + tag, tag)));
+        select.value = tagFilter;
+    }
+
+    // 淡化不带所选标签的节点，以及两端有任一节点被淡化的连接，不改变布局
+    function applyTagFilter() {
+        const matches = d => !tagFilter || (d.tags || []).includes(tagFilter);
+        svg.selectAll('circle.node').classed('filtered-out', d => !matches(d));
+        svg.selectAll('text.node-label').classed('filtered-out', d => !matches(d));
+        svg.selectAll('line.link').classed('filtered-out', d => !matches(d.source) || !matches(d.target));
+        svg.selectAll('text.edge-label').classed('filtered-out', d => !matches(d.source) || !matches(d.target));
+    }
+
     function dragstarted(event, d) {
         if (!event.active) simulation.alphaTarget(0.3).restart();
         d.fx = d.x;
@@ -226,7 +259,9 @@
         switch (message.command) {
             case 'updateData':
                 currentData = message.data;
+                updateTagOptions();
                 updateVisualization();
+                applyTagFilter();
                 break;
         }
     });
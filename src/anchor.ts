@@ -0,0 +1,139 @@
+import * as crypto from 'crypto';
+
+/**
+ * 书签内容锚点：记录书签所在行及其上下文的文本快照，
+ * 用于文件在编辑器之外被修改（git pull / rebase / 格式化等）后重新定位书签。
+ */
+export interface BookmarkAnchor {
+  text: string        // 书签所在行的文本
+  before: string[]    // 书签行之前的若干行（由远到近）
+  after: string[]     // 书签行之后的若干行（由近到远）
+  hash: string        // 书签行规范化文本的哈希，用于快速比对
+}
+
+export interface AnchorResolution {
+  line: number
+  exact: boolean      // 是否为书签行文本的精确匹配
+  score: number       // 0 ~ 1 的置信度
+}
+
+// 锚点记录的上下文行数
+const CONTEXT_LINES = 2;
+// 相似匹配被接受的最低置信度
+const SIMILAR_THRESHOLD = 0.7;
+// 书签行为空行时仅能依赖上下文，要求更高的置信度
+const BLANK_LINE_THRESHOLD = 0.85;
+
+function normalize (text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+function hashText (text: string): string {
+  return crypto.createHash('sha1').update(normalize(text)).digest('hex').substring(0, 12);
+}
+
+export function splitLines (content: string): string[] {
+  return content.split(/\r\n|\r|\n/);
+}
+
+/**
+ * 根据文件内容为指定行创建锚点
+ */
+export function createAnchor (lines: string[], line: number): BookmarkAnchor {
+  const text = lines[line] ?? '';
+  return {
+    text,
+    before: lines.slice(Math.max(0, line - CONTEXT_LINES), line),
+    after: lines.slice(line + 1, line + 1 + CONTEXT_LINES),
+    hash: hashText(text)
+  };
+}
+
+/**
+ * 两个字符串的相似度（字符二元组的 Dice 系数），范围 0 ~ 1
+ */
+export function similarity (a: string, b: string): number {
+  const na = normalize(a);
+  const nb = normalize(b);
+  if (na === nb) { return 1; }
+  if (na.length < 2 || nb.length < 2) { return 0; }
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < na.length - 1; i++) {
+    const bigram = na.substring(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+
+  let intersection = 0;
+  for (let i = 0; i < nb.length - 1; i++) {
+    const bigram = nb.substring(i, i + 2);
+    const count = bigrams.get(bigram) ?? 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      intersection++;
+    }
+  }
+
+  return (2 * intersection) / (na.length + nb.length - 2);
+}
+
+// 候选行周围的上下文与锚点上下文的平均相似度
+function contextScore (lines: string[], line: number, anchor: BookmarkAnchor): number {
+  const scores: number[] = [];
+  anchor.before.forEach((text, i) => {
+    const candidate = lines[line - anchor.before.length + i];
+    scores.push(candidate === undefined ? 0 : similarity(candidate, text));
+  });
+  anchor.after.forEach((text, i) => {
+    const candidate = lines[line + 1 + i];
+    scores.push(candidate === undefined ? 0 : similarity(candidate, text));
+  });
+  if (scores.length === 0) { return 1; }
+  return scores.reduce((sum, s) => sum + s, 0) / scores.length;
+}
+
+/**
+ * 在新的文件内容中查找锚点对应的行：
+ * 1. 原行号处文本未变，直接保留
+ * 2. 精确匹配书签行文本，多个候选时按上下文相似度、再按与原行号的距离选择
+ * 3. 相似匹配：综合书签行与上下文的相似度，取最高分且超过阈值的行
+ * 无法可靠定位时返回 undefined
+ */
+export function resolveAnchor (lines: string[], anchor: BookmarkAnchor, hintLine: number): AnchorResolution | undefined {
+  const blank = normalize(anchor.text) === '';
+
+  if (!blank && lines[hintLine] !== undefined && hashText(lines[hintLine]) === anchor.hash) {
+    return { line: hintLine, exact: true, score: 1 };
+  }
+
+  let best: AnchorResolution | undefined;
+  const consider = (candidate: AnchorResolution) => {
+    if (!best
+      || candidate.score > best.score
+      || (candidate.score === best.score && Math.abs(candidate.line - hintLine) < Math.abs(best.line - hintLine))) {
+      best = candidate;
+    }
+  };
+
+  if (!blank) {
+    for (let i = 0; i < lines.length; i++) {
+      if (hashText(lines[i]) === anchor.hash) {
+        consider({ line: i, exact: true, score: contextScore(lines, i, anchor) });
+      }
+    }
+    if (best) {
+      return best;
+    }
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const context = contextScore(lines, i, anchor);
+    const score = blank
+      ? (normalize(lines[i]) === '' ? context : 0)
+      : 0.6 * similarity(lines[i], anchor.text) + 0.4 * context;
+    consider({ line: i, exact: false, score });
+  }
+
+  const threshold = blank ? BLANK_LINE_THRESHOLD : SIMILAR_THRESHOLD;
+  return best && best.score >= threshold ? best : undefined;
+}
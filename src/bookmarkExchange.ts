@@ -0,0 +1,303 @@
+import type { Bookmark, BookmarkGroup } from './bookmarkManager';
+import { CURRENT_SCHEMA_VERSION, migrateCollection } from './schema';
+import { resolveBookmarkLinks } from './bookmarkNotes';
+import { parseTags } from './tags';
+
+/**
+ * 书签的导入与导出格式：
+ * - JSON：无损的书签包，包含分组层级、优先级、范围与内容锚点，可再次导入
+ * - Markdown：按分组嵌套标题排列，带可点击的 file:line 链接，便于代码评审
+ * - CSV：每行一个书签，分组以路径表示，便于在表格软件中查看；也可以导入
+ */
+
+export const BUNDLE_FORMAT = 'vscode-bookmark-plugin/bundle';
+
+export interface BookmarkBundle {
+  format: typeof BUNDLE_FORMAT
+  schemaVersion: number
+  exportedAt: string
+  groups: BookmarkGroup[]
+  bookmarks: Bookmark[]
+}
+
+export function createBundle (bookmarks: Bookmark[], groups: BookmarkGroup[]): BookmarkBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    groups,
+    bookmarks
+  };
+}
+
+/**
+ * 解析 JSON 书签包；旧版本的书签包按存储数据的迁移链升级，版本更高时抛出 SchemaVersionError
+ */
+export function parseBundle (text: string): BookmarkBundle {
+  const raw = JSON.parse(text);
+  if (!raw || raw.format !== BUNDLE_FORMAT) {
+    throw new Error('Not a bookmark bundle');
+  }
+  const schemaVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 1;
+  const bookmarks = migrateCollection<Bookmark>('bookmarks', { schemaVersion, items: raw.bookmarks ?? [] })!.items;
+  const groups = migrateCollection<BookmarkGroup>('bookmarkGroups', { schemaVersion, items: raw.groups ?? [] })!.items;
+  return {
+    format: BUNDLE_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: raw.exportedAt,
+    bookmarks: bookmarks.map(b => ({ ...b, created: new Date(b.created) })),
+    groups: groups.map(g => ({ ...g, created: new Date(g.created) }))
+  };
+}
+
+/**
+ * 与 BookmarkManager.getBookmarksGrouped 的返回值一致
+ */
+export interface GroupedBookmarks {
+  ungrouped: Bookmark[]
+  rootGroups: BookmarkGroup[]
+  groupedBookmarks: Map<string, Bookmark[]>
+  groupedSubGroups: Map<string, BookmarkGroup[]>
+}
+
+/**
+ * 只保留指定的书签及直接或间接包含它们的分组（例如导出选中的书签）；
+ * 结果的 groupedBookmarks 中只有保留下来的分组
+ */
+export function filterGrouped (data: GroupedBookmarks, bookmarkIds: Set<string>): GroupedBookmarks {
+  const groupedBookmarks = new Map<string, Bookmark[]>();
+  const groupedSubGroups = new Map<string, BookmarkGroup[]>();
+  const keep = (group: BookmarkGroup): boolean => {
+    const bookmarks = (data.groupedBookmarks.get(group.id) ?? []).filter(b => bookmarkIds.has(b.id));
+    const subGroups = (data.groupedSubGroups.get(group.id) ?? []).filter(keep);
+    if (bookmarks.length === 0 && subGroups.length === 0) {
+      return false;
+    }
+    groupedBookmarks.set(group.id, bookmarks);
+    groupedSubGroups.set(group.id, subGroups);
+    return true;
+  };
+  return {
+    ungrouped: data.ungrouped.filter(b => bookmarkIds.has(b.id)),
+    rootGroups: data.rootGroups.filter(keep),
+    groupedBookmarks,
+    groupedSubGroups
+  };
+}
+
+/**
+ * 生成 Markdown 文档：分组为嵌套标题（最深到六级），书签为列表项，笔记缩进在列表项下。
+ * linkTarget 返回书签的链接地址（通常为相对导出文件的路径加 #L 行号），笔记中的书签链接同样指向它
+ */
+export function toMarkdown (
+  data: GroupedBookmarks,
+  linkTarget: (bookmark: Bookmark) => string,
+  title = '书签'
+): string {
+  const lines: string[] = [`# ${title}`, ''];
+  const all = [...data.ungrouped, ...Array.from(data.groupedBookmarks.values()).flat()];
+  const noteLinkTarget = (id: string) => {
+    const target = all.find(b => b.id === id);
+    return target ? `<${linkTarget(target)}>` : undefined;
+  };
+
+  const writeBookmarks = (bookmarks: Bookmark[]) => {
+    bookmarks.forEach(bookmark => {
+      const location = `${bookmark.file}:${bookmark.line + 1}`;
+      const tags = (bookmark.tags ?? []).map(tag => ` \`#${tag}\``).join('');
+      lines.push(`- **${escapeMarkdown(bookmark.label)}** [${escapeMarkdown(location)}](<${linkTarget(bookmark)}>)${tags}`);
+      if (bookmark.description) {
+        const notes = resolveBookmarkLinks(bookmark.description, noteLinkTarget);
+        lines.push('', ...notes.split('\n').map(line => line ? `  ${line}` : ''), '');
+      }
+    });
+    if (bookmarks.length > 0 && lines[lines.length - 1] !== '') {
+      lines.push('');
+    }
+  };
+
+  const writeGroup = (group: BookmarkGroup, depth: number) => {
+    lines.push(`${'#'.repeat(Math.min(depth + 2, 6))} ${escapeMarkdown(group.name)}`, '');
+    writeBookmarks(data.groupedBookmarks.get(group.id) ?? []);
+    (data.groupedSubGroups.get(group.id) ?? []).forEach(sub => writeGroup(sub, depth + 1));
+  };
+
+  data.rootGroups.forEach(group => writeGroup(group, 0));
+  if (data.ungrouped.length > 0) {
+    lines.push('## 未分组', '');
+    writeBookmarks(data.ungrouped);
+  }
+  return lines.join('\n');
+}
+
+function escapeMarkdown (text: string): string {
+  return text.replace(/([\\`*_[\]<>#|])/g, '\\$1');
+}
+
+const CSV_COLUMNS = ['label', 'file', 'line', 'column', 'group', 'priority', 'description', 'workspaceFolder', 'scope', 'created', 'tags'];
+
+/**
+ * 生成 CSV（RFC 4180）：行号与列号从 1 开始，分组为 "父分组 > 子分组" 形式的路径，标签以空格分隔。
+ * groupNames 返回分组从根到自身的名称
+ */
+export function toCsv (bookmarks: Bookmark[], groupNames: (groupId: string) => string[]): string {
+  const rows = bookmarks.map(b => [
+    csvText(b.label),
+    csvText(b.file),
+    String(b.line + 1),
+    String(b.column + 1),
+    csvText(b.groupId ? joinGroupPath(groupNames(b.groupId)) : ''),
+    String(b.priority ?? 0),
+    csvText(b.description ?? ''),
+    csvText(b.workspaceFolder ?? ''),
+    b.scope ?? '',
+    new Date(b.created).toISOString(),
+    csvText((b.tags ?? []).join(' '))
+  ]);
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+function csvField (value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// 以这些字符开头的单元格会被表格软件当作公式执行（CSV 注入），导出时在前面加上 '，导入时去掉
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvText (value: string): string {
+  return FORMULA_PREFIX.test(value) ? `'${value}` : value;
+}
+
+function fromCsvText (value: string): string {
+  return value.startsWith('\'') && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+// 分组名称中的 \ 与 > 前加 \ 转义，以免与路径分隔符混淆
+function joinGroupPath (names: string[]): string {
+  return names.map(name => name.replace(/[\\>]/g, '\\$&')).join(' > ');
+}
+
+function splitGroupPath (groupPath: string): string[] {
+  const names: string[] = [];
+  let name = '';
+  for (let i = 0; i < groupPath.length; i++) {
+    const char = groupPath[i];
+    if (char === '\\' && (groupPath[i + 1] === '\\' || groupPath[i + 1] === '>')) {
+      name += groupPath[++i];
+    } else if (char === '>') {
+      names.push(name);
+      name = '';
+    } else {
+      name += char;
+    }
+  }
+  names.push(name);
+  return names.map(n => n.trim()).filter(n => n);
+}
+
+export function parseCsvRows (text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(value => value !== ''));
+}
+
+/**
+ * 将 CSV 转换为书签包：按分组路径创建分组（同一文件夹、同一范围内同名路径只创建一次）
+ */
+export function parseCsv (text: string, generateId: () => string): BookmarkBundle {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header || !header.includes('file') || !header.includes('line')) {
+    throw new Error('CSV must contain "file" and "line" columns');
+  }
+  const column = (row: string[], name: string) => {
+    const index = header.indexOf(name);
+    return index === -1 ? '' : fromCsvText((row[index] ?? '').trim());
+  };
+
+  const groups: BookmarkGroup[] = [];
+  const groupIds = new Map<string, string>();
+  const ensureGroup = (groupPath: string, folder: string, scope: string): string | undefined => {
+    let parentId: string | undefined;
+    const names = splitGroupPath(groupPath);
+    names.forEach((name, index) => {
+      const key = [folder, scope, ...names.slice(0, index + 1)].join('\u0000');
+      if (!groupIds.has(key)) {
+        const group: BookmarkGroup = {
+          id: generateId(),
+          name,
+          isDefault: false,
+          created: new Date(),
+          parentId,
+          priority: 0,
+          scope: scope === 'team' ? 'team' : undefined,
+          workspaceFolder: folder || undefined
+        };
+        groups.push(group);
+        groupIds.set(key, group.id);
+      }
+      parentId = groupIds.get(key);
+    });
+    return parentId;
+  };
+
+  const bookmarks: Bookmark[] = rows
+    .filter(row => column(row, 'file') && !isNaN(parseInt(column(row, 'line'), 10)))
+    .map(row => {
+      const file = column(row, 'file');
+      const line = Math.max(parseInt(column(row, 'line'), 10) - 1, 0);
+      const folder = column(row, 'workspaceFolder');
+      const scope = column(row, 'scope');
+      const created = new Date(column(row, 'created'));
+      const tags = parseTags(column(row, 'tags'));
+      return {
+        id: generateId(),
+        label: column(row, 'label') || `${file.split('/').pop()}:${line + 1}`,
+        file,
+        workspaceFolder: folder || undefined,
+        line,
+        column: Math.max((parseInt(column(row, 'column'), 10) || 1) - 1, 0),
+        description: column(row, 'description') || undefined,
+        created: isNaN(created.getTime()) ? new Date() : created,
+        groupId: ensureGroup(column(row, 'group'), folder, scope),
+        priority: parseInt(column(row, 'priority'), 10) || 0,
+        scope: scope === 'team' ? 'team' : undefined,
+        tags: tags.length > 0 ? tags : undefined
+      };
+    });
+
+  return createBundle(bookmarks, groups);
+}
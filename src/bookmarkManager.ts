@@ -1,7 +1,32 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import * as fs from 'fs';
 import { StorageFactory, IStorage } from './storage';
-
+import { applyChangesToRange, rangeEndOf, TrackedRange } from './lineTracker';
+import { BookmarkAnchor, createAnchor, resolveAnchor, splitLines } from './anchor';
+import { isSameOrInside, mapRenamedPath, resolvePortablePath, toPortablePath } from './workspacePaths';
+import type { BookmarkBundle } from './bookmarkExchange';
+import { BookmarkSymbol, captureSymbol, resolveSymbolLine, SymbolNode } from './symbols';
+import { collectTags, replaceTags, TagCount } from './tags';
+import { applyEntry, diffSnapshots, History, HistoryEntry, HistoryState, mergeEntries, takeSnapshot } from './history';
+import { BookmarkProblem, checkBookmark, rankCandidates } from './validation';
+import { readBranch } from './gitBranch';
+import {
+  CollectionKind,
+  CURRENT_SCHEMA_VERSION,
+  migrateCollection,
+  SchemaVersionError,
+  StoredCollection,
+  toVersionedCollection
+} from './schema';
+
+/**
+ * 书签范围：personal 为个人书签（默认存储）；team 为团队书签，
+ * 保存在工作区的 .vscode/team-bookmarks.json 中并使用相对路径，可随仓库提交共享
+ */
+export type BookmarkScope = 'personal' | 'team';
+
+export const TEAM_BOOKMARK_FILE = path.join('.vscode', 'team-bookmarks.json');
 
 export interface BookmarkGroup {
   id: string
@@ -10,18 +35,106 @@ export interface BookmarkGroup {
   created: Date
   parentId?: string // 添加父分组ID，支持嵌套
   priority?: number // 用于排序，数字越大，优先级越高
+  scope?: BookmarkScope // 未设置时为 personal；子分组与父分组的范围一致
+  workspaceFolder?: string // 所属工作区文件夹的名称（仅在内存中使用，由所在的存储决定）
 }
 
 export interface Bookmark {
   id: string
   label: string
-  file: string
+  file: string // 工作区内的文件为相对所属工作区文件夹的路径（使用 /），否则为绝对路径
+  workspaceFolder?: string // 所属工作区文件夹的名称：相对路径以它为基准（仅在内存中使用，由所在的存储决定）
   line: number
   column: number
-  description?: string
+  endLine?: number // 范围书签（例如整个函数或一段配置）的终点，未设置时书签为一个位置
+  endColumn?: number
+  description?: string // Markdown 笔记，可包含代码块与指向其它书签的 bookmark:<id> 链接
   created: Date
   groupId?: string // 可选，不属于任何组时为undefined
   priority?: number // 用于排序，数字越大优先级越高
+  tags?: string[] // 标签，与分组无关的自由分类
+  anchor?: BookmarkAnchor // 内容锚点，用于文件在外部被修改后重新定位
+  symbol?: BookmarkSymbol // 所在的函数、类等符号，打开文件或跳转时按符号重新定位
+  orphaned?: boolean // 无法通过锚点可靠定位时为 true
+  scope?: BookmarkScope // 未设置时为 personal；属于分组时与分组的范围一致
+  branch?: string // 按分支显示时所属的 Git 分支，只在该分支上显示；未设置时在所有分支上显示（团队书签不使用）
+}
+
+export interface ImportResult {
+  bookmarksAdded: number
+  groupsAdded: number
+  duplicates: number
+}
+
+export function scopeOf (item: { scope?: BookmarkScope }): BookmarkScope {
+  return item.scope ?? 'personal';
+}
+
+export function folderOf (item: { workspaceFolder?: string }): string {
+  return item.workspaceFolder ?? '';
+}
+
+/**
+ * 个人书签与分组的存储 key：多根工作区（.code-workspace）中每个文件夹的书签保存在独立的 key 下；单文件夹时沿用原有 key
+ */
+export function storageKeysFor (folder: string, multiRoot: boolean): { bookmarks: string, groups: string } {
+  return multiRoot
+    ? { bookmarks: `bookmarks:${folder}`, groups: `bookmarkGroups:${folder}` }
+    : { bookmarks: 'bookmarks', groups: 'bookmarkGroups' };
+}
+
+// 一个工作区文件夹中按范围拆分后写入各自存储的书签与分组
+export interface ScopedCollections {
+  personal: { bookmarks: Bookmark[], groups: BookmarkGroup[] }
+  team: { bookmarks: Bookmark[], groups: BookmarkGroup[] }
+}
+
+/**
+ * 将一个工作区文件夹中的书签与分组按范围拆分为写入存储的内容。个人书签与分组不写入文件夹名称（由存储 key 决定）；
+ * 团队书签与分组还不写入 scope 与 branch（文件夹名称取决于各自克隆的目录名，无法共享；团队书签不按分支显示）
+ */
+export function splitByScope (bookmarks: Bookmark[], groups: BookmarkGroup[]): ScopedCollections {
+  return {
+    personal: {
+      bookmarks: bookmarks.filter(b => b.scope !== 'team').map(({ workspaceFolder, ...bookmark }) => bookmark),
+      groups: groups.filter(g => g.scope !== 'team').map(({ workspaceFolder, ...group }) => group)
+    },
+    team: {
+      bookmarks: bookmarks.filter(b => b.scope === 'team').map(({ scope, workspaceFolder, branch, ...bookmark }) => bookmark),
+      groups: groups.filter(g => g.scope === 'team').map(({ scope, workspaceFolder, ...group }) => group)
+    }
+  };
+}
+
+/**
+ * 书签所在行的显示文本（从 1 开始）：跨多行的范围书签显示为起止行，例如 12-20
+ */
+export function lineSpanOf (bookmark: { line: number, endLine?: number }): string {
+  return bookmark.endLine !== undefined && bookmark.endLine !== bookmark.line
+    ? `${bookmark.line + 1}-${bookmark.endLine + 1}`
+    : `${bookmark.line + 1}`;
+}
+
+// 书签当前的位置，范围书签包含终点
+function positionOf (bookmark: Bookmark): TrackedRange {
+  return bookmark.endLine === undefined
+    ? { line: bookmark.line, column: bookmark.column }
+    : { line: bookmark.line, column: bookmark.column, endLine: bookmark.endLine, endColumn: bookmark.endColumn ?? 0 };
+}
+
+function samePosition (a: TrackedRange, b: TrackedRange): boolean {
+  return a.line === b.line && a.column === b.column && a.endLine === b.endLine && a.endColumn === b.endColumn;
+}
+
+// 书签或分组集合所在的存储；团队书签文件在同一个存储中同时保存两者
+type CollectionStorage = IStorage<StoredCollection<Bookmark | BookmarkGroup>>;
+
+// 保存时写入存储的一个集合（某个存储中的一个 key）
+interface CollectionWrite {
+  storage: CollectionStorage
+  key: string
+  collectionId: string
+  items: Bookmark[] | BookmarkGroup[]
 }
 
 export class BookmarkManager {
@@ -30,58 +143,488 @@ export class BookmarkManager {
   private context: vscode.ExtensionContext;
   private onDidChangeTreeData: vscode.EventEmitter<void> =
     new vscode.EventEmitter<void>();
-  private bookmarkStorage: IStorage<Bookmark[]>;
-  private groupStorage: IStorage<BookmarkGroup[]>;
+  private bookmarkStorage: CollectionStorage;
+  private groupStorage: CollectionStorage;
+  // 各工作区文件夹的团队书签存储（.vscode/team-bookmarks.json），首次使用团队范围时才创建文件
+  private teamStorages = new Map<string, CollectionStorage>();
+  // 数据版本高于当前插件的集合（由更新的插件写入）：不加载也不覆盖
+  private refusedCollections = new Set<string>();
+  // 已在迁移前备份过的存储
+  private backedUpStorages = new Set<CollectionStorage>();
+  // 各集合最近一次读取或写入的内容（序列化后），只写入发生变化的集合
+  private savedCollections = new Map<string, string>();
+  // 已监听外部修改的存储
+  private watchedStorages = new Set<CollectionStorage>();
+  // 已加载书签的工作区文件夹
+  private loadedFolders = new Set<string>();
   private ready: Promise<void> = Promise.resolve();
+  // 未保存文档中书签的已提交位置：file -> (bookmarkId -> 位置)
+  // 文档有未保存的编辑时，内存中的书签位置随编辑移动，而持久化时仍使用这里的位置
+  private committedPositions = new Map<string, Map<string, TrackedRange>>();
+  // 撤销/重做历史；batch 执行期间各步先收集在 batchEntries 中，结束时合并为一步
+  private history = new History<Bookmark, BookmarkGroup>();
+  private batchEntries: HistoryEntry<Bookmark, BookmarkGroup>[] | undefined;
+  private batchSavePending = false;
+  private onDidChangeHistory: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+  // 最近一次检查发现的失效书签（文件不存在或行号超出文件末尾）：bookmarkId -> 原因，不保存到存储
+  private problems = new Map<string, BookmarkProblem>();
+  // 按分支显示时，属于其它分支的个人书签：不显示也不跟踪位置，保存时写回；标签与分组的批量修改同样作用于它们
+  private hiddenBookmarks: Bookmark[] = [];
+  // 各工作区文件夹当前所在的 Git 分支（不是 git 仓库或分离头指针时为 undefined）
+  private branches = new Map<string, string | undefined>();
+  private branchScoping = false;
+  private onDidChangeBranch: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
 
   constructor (
     context: vscode.ExtensionContext,
-    bookmarkStorage?: IStorage<Bookmark[]>,
-    groupStorage?: IStorage<BookmarkGroup[]>
+    bookmarkStorage?: CollectionStorage,
+    groupStorage?: CollectionStorage
   ) {
     this.context = context;
     // use provided storages or fall back to default file storage
     this.bookmarkStorage =
       bookmarkStorage ??
-      StorageFactory.create<Bookmark[]>({ type: 'file' }, context);
+      StorageFactory.create<StoredCollection<Bookmark | BookmarkGroup>>({ type: 'file' }, context);
     this.groupStorage =
       groupStorage ??
-      StorageFactory.create<BookmarkGroup[]>({ type: 'file' }, context);
+      StorageFactory.create<StoredCollection<Bookmark | BookmarkGroup>>({ type: 'file' }, context);
+    this.watchStorage(this.bookmarkStorage);
+    this.watchStorage(this.groupStorage);
     // kick off initial load and keep the promise so other ops can await it
     this.ready = this.loadData();
   }
 
+  private watchStorage (storage: CollectionStorage): void {
+    if (!storage.onDidChange || this.watchedStorages.has(storage)) {
+      return;
+    }
+    this.watchedStorages.add(storage);
+    this.context.subscriptions.push(storage.onDidChange(() => this.handleExternalStorageChange()));
+  }
+
+  /**
+   * 存储被外部修改（其它窗口、脚本、git checkout 等）后重新加载。
+   * 未保存文档中的书签保留本窗口中的实时位置；外部同时修改或删除了这些书签时以外部为准，并提示冲突。
+   * 重新加载的数据与本窗口最近一次读写的相同时保留撤销历史，否则历史中的修改可能覆盖外部的修改，清空历史
+   */
+  private async handleExternalStorageChange (): Promise<void> {
+    await this.ready;
+    const pending: { id: string, label: string, file: string, live: TrackedRange, committed: TrackedRange }[] = [];
+    this.committedPositions.forEach((positions, file) => {
+      positions.forEach((committed, id) => {
+        const bookmark = this.bookmarks.find(b => b.id === id);
+        if (bookmark) {
+          pending.push({ id, label: bookmark.label, file, live: positionOf(bookmark), committed });
+        }
+      });
+    });
+
+    const previousCollections = new Map(this.savedCollections);
+    const history = this.history;
+    this.history = new History<Bookmark, BookmarkGroup>();
+    this.ready = this.loadData();
+    await this.ready;
+    if (previousCollections.size === this.savedCollections.size &&
+      Array.from(previousCollections).every(([id, items]) => this.savedCollections.get(id) === items)) {
+      this.history = history;
+      this.onDidChangeHistory.fire();
+    }
+
+    const conflicts: string[] = [];
+    pending.forEach(item => {
+      const bookmark = this.bookmarks.find(b => b.id === item.id);
+      if (!bookmark || !samePosition(positionOf(bookmark), item.committed)) {
+        conflicts.push(item.label);
+        return;
+      }
+      Object.assign(bookmark, item.live);
+      if (!this.committedPositions.has(item.file)) {
+        this.committedPositions.set(item.file, new Map());
+      }
+      this.committedPositions.get(item.file)!.set(item.id, item.committed);
+    });
+    this.onDidChangeTreeData.fire();
+
+    if (conflicts.length > 0) {
+      vscode.window.showWarningMessage(
+        `书签数据已被其它窗口或程序修改并重新加载。以下书签在未保存文件中的位置变化与外部修改冲突，已使用外部的版本: ${conflicts.join('、')}`
+      );
+    }
+  }
+
   public getOnDidChangeTreeData (): vscode.Event<void> {
     return this.onDidChangeTreeData.event;
   }
 
+  public getOnDidChangeHistory (): vscode.Event<void> {
+    return this.onDidChangeHistory.event;
+  }
+
+  public getOnDidChangeBranch (): vscode.Event<void> {
+    return this.onDidChangeBranch.event;
+  }
+
+  /**
+   * 重新从存储加载所有书签（例如从备份恢复之后）
+   */
+  public async reload (): Promise<void> {
+    await this.ready;
+    this.ready = this.loadData();
+    await this.ready;
+  }
+
   private async loadData (): Promise<void> {
-    // 加载书签
-    const storedBookmarks = await this.bookmarkStorage.load('bookmarks');
-    this.bookmarks = storedBookmarks
-      ? storedBookmarks.map(bookmark => ({
-          ...bookmark,
-          created: new Date(bookmark.created)
-        }))
-      : [];
+    this.bookmarks = [];
+    this.hiddenBookmarks = [];
+    this.groups = [];
+    this.history.clear();
+    this.onDidChangeHistory.fire();
+    this.committedPositions.clear();
+    this.refusedCollections.clear();
+    this.loadedFolders.clear();
+    this.savedCollections.clear();
+    // 旧版本格式的数据在加载时迁移，随后全部写回为当前格式
+    let changed = false;
+    for (const folder of this.getFolderNames()) {
+      if (await this.loadFolderData(folder)) {
+        changed = true;
+      }
+    }
+    if (!changed) {
+      this.snapshotCollections();
+    }
+
+    // 多根工作区旧数据（所有文件夹混在一起）拆分到各文件夹
+    if (await this.migrateLegacyWorkspaceData()) {
+      changed = true;
+    }
+    // 旧数据中的绝对路径迁移为相对工作区文件夹的路径
+    if (this.migrateAbsolutePaths()) {
+      changed = true;
+    }
+    // 按分支显示时只保留当前分支的书签与全局书签
+    await this.readBranches();
+    this.partitionBookmarks();
+    this.onDidChangeBranch.fire();
 
-    // 加载分组
-    const storedGroups = await this.groupStorage.load('bookmarkGroups');
-    this.groups = storedGroups
-      ? storedGroups.map(group => ({
-          ...group,
-          created: new Date(group.created),
-          priority: (group.priority ?? 0)
-        }))
-      : [];
     // notify any listeners that initial data is ready
     this.onDidChangeTreeData.fire();
+
+    // 文件可能在插件未运行期间被修改，按锚点重新定位所有书签
+    if (await this.relocateAll(this.bookmarks)) {
+      changed = true;
+    }
+    // 文件可能在插件未运行期间被删除或重命名；重命名的文件按内容锚点找回
+    const problemsChanged = await this.checkBookmarks();
+    if (await this.followMovedFiles()) {
+      changed = true;
+    }
+    if (changed) {
+      await this.saveData();
+    } else if (problemsChanged) {
+      this.onDidChangeTreeData.fire();
+    }
+  }
+
+  /**
+   * 当前工作区中的文件夹名称；未打开文件夹时为 ['']。第一个为主文件夹，工作区之外文件上的书签归属于它
+   */
+  private getFolderNames (): string[] {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    return folders.length > 0 ? folders.map(f => f.name) : [''];
+  }
+
+  private getPrimaryFolder (): string {
+    return this.getFolderNames()[0];
+  }
+
+  private storageKeys (folder: string): { bookmarks: string, groups: string } {
+    return storageKeysFor(folder, !!vscode.workspace.workspaceFile);
+  }
+
+  /**
+   * 读取一个集合并迁移到当前格式版本。迁移前先备份存储文件；
+   * 版本高于当前插件时拒绝加载，并在之后的保存中跳过该集合，避免覆盖更新版本的数据
+   */
+  private async readCollection<T extends Bookmark | BookmarkGroup> (
+    storage: CollectionStorage,
+    key: string,
+    kind: CollectionKind,
+    collectionId: string = key
+  ): Promise<{ items: T[], migrated: boolean }> {
+    try {
+      const result = migrateCollection<T>(kind, await storage.load(key));
+      if (!result) {
+        return { items: [], migrated: false };
+      }
+      if (result.migrated && !this.backedUpStorages.has(storage)) {
+        const backup = await storage.backup(`v${result.fromVersion}`);
+        this.backedUpStorages.add(storage);
+        try { console.log(`[bookmark] Migrating ${collectionId} from schema v${result.fromVersion}, backup: ${backup}`); } catch {}
+      }
+      return { items: result.items, migrated: result.migrated };
+    } catch (e) {
+      if (e instanceof SchemaVersionError) {
+        this.refusedCollections.add(collectionId);
+        vscode.window.showErrorMessage(
+          `书签数据 "${collectionId}" 的格式版本为 ${e.version}，高于当前插件支持的版本 ${CURRENT_SCHEMA_VERSION}。` +
+          '请升级插件；在此之前不会加载这些数据，也不会覆盖它们。'
+        );
+        return { items: [], migrated: false };
+      }
+      console.error(`Failed to load ${collectionId}:`, e);
+      vscode.window.showErrorMessage(`无法读取书签数据 "${collectionId}"，数据格式无效`);
+      this.refusedCollections.add(collectionId);
+      return { items: [], migrated: false };
+    }
+  }
+
+  private async writeCollection ({ storage, key, items, collectionId }: CollectionWrite): Promise<void> {
+    const serialized = JSON.stringify(items);
+    if (this.refusedCollections.has(collectionId) || this.savedCollections.get(collectionId) === serialized) {
+      return;
+    }
+    await storage.save(key, toVersionedCollection<Bookmark | BookmarkGroup>(items));
+    this.savedCollections.set(collectionId, serialized);
+  }
+
+  /**
+   * 加载一个工作区文件夹的个人书签与团队书签；返回是否迁移了旧格式的数据
+   */
+  private async loadFolderData (folder: string): Promise<boolean> {
+    const keys = this.storageKeys(folder);
+    const owner = folder || undefined;
+
+    // 加载书签
+    const storedBookmarks = await this.readCollection<Bookmark>(this.bookmarkStorage, keys.bookmarks, 'bookmarks');
+    this.bookmarks.push(...storedBookmarks.items.map(bookmark => ({
+      ...bookmark,
+      created: new Date(bookmark.created),
+      workspaceFolder: owner,
+      scope: undefined
+    })));
+
+    // 加载分组
+    const storedGroups = await this.readCollection<BookmarkGroup>(this.groupStorage, keys.groups, 'bookmarkGroups');
+    this.groups.push(...storedGroups.items.map(group => ({
+      ...group,
+      created: new Date(group.created),
+      priority: (group.priority ?? 0),
+      workspaceFolder: owner,
+      scope: undefined
+    })));
+
+    const teamMigrated = await this.loadTeamData(folder);
+    this.loadedFolders.add(folder);
+    return storedBookmarks.migrated || storedGroups.migrated || teamMigrated;
+  }
+
+  /**
+   * 工作区文件夹增减时加载或卸载对应文件夹的书签（卸载不会删除已保存的数据）
+   */
+  public async handleWorkspaceFoldersChanged (event: vscode.WorkspaceFoldersChangeEvent): Promise<void> {
+    await this.ready;
+
+    for (const folder of event.removed) {
+      this.bookmarks
+        .filter(b => folderOf(b) === folder.name)
+        .forEach(b => this.committedPositions.delete(this.resolveBookmarkFile(b)));
+      this.bookmarks = this.bookmarks.filter(b => folderOf(b) !== folder.name);
+      this.hiddenBookmarks = this.hiddenBookmarks.filter(b => folderOf(b) !== folder.name);
+      this.branches.delete(folder.name);
+      this.groups = this.groups.filter(g => folderOf(g) !== folder.name);
+      this.teamStorages.delete(folder.name);
+      this.loadedFolders.delete(folder.name);
+    }
+
+    let relocated = false;
+    for (const folder of event.added) {
+      if (this.loadedFolders.has(folder.name)) {
+        continue;
+      }
+      if (await this.loadFolderData(folder.name)) {
+        relocated = true;
+      } else {
+        this.snapshotCollections();
+      }
+      this.branches.set(folder.name, await readBranch(folder.uri.fsPath));
+      this.partitionBookmarks();
+      this.onDidChangeBranch.fire();
+      if (await this.relocateAll(this.bookmarks.filter(b => folderOf(b) === folder.name))) {
+        relocated = true;
+      }
+    }
+
+    if (relocated) {
+      await this.saveData();
+    } else {
+      this.onDidChangeTreeData.fire();
+    }
+  }
+
+  /**
+   * 多根工作区中，旧版本把所有文件夹的书签保存在同一组 key 下：
+   * 书签按所在文件夹拆分；分组归属主文件夹，其它文件夹中用到的分组连同父分组复制一份
+   */
+  private async migrateLegacyWorkspaceData (): Promise<boolean> {
+    if (!vscode.workspace.workspaceFile) {
+      return false;
+    }
+    const keys = await this.bookmarkStorage.listKeys();
+    if (!keys.includes('bookmarks') && !keys.includes('bookmarkGroups')) {
+      return false;
+    }
+    const legacyBookmarks = (await this.readCollection<Bookmark>(this.bookmarkStorage, 'bookmarks', 'bookmarks')).items;
+    const legacyGroups = (await this.readCollection<BookmarkGroup>(this.groupStorage, 'bookmarkGroups', 'bookmarkGroups')).items;
+    // 无法读取的旧数据保留原样，不做拆分
+    if (this.refusedCollections.has('bookmarks') || this.refusedCollections.has('bookmarkGroups')) {
+      return false;
+    }
+
+    const primary = this.getPrimaryFolder();
+    const groups = legacyGroups.map(group => ({
+      ...group,
+      created: new Date(group.created),
+      priority: (group.priority ?? 0),
+      workspaceFolder: primary || undefined,
+      scope: undefined
+    }));
+    const clones = new Map<string, string>();
+    const cloneInto = (groupId: string, folder: string): string | undefined => {
+      const source = groups.find(g => g.id === groupId);
+      if (!source || folder === primary) {
+        return source?.id;
+      }
+      const cloneKey = `${folder}/${groupId}`;
+      if (!clones.has(cloneKey)) {
+        const parentId = source.parentId ? cloneInto(source.parentId, folder) : undefined;
+        const clone = { ...source, id: this.generateId(), parentId, isDefault: false, workspaceFolder: folder };
+        this.groups.push(clone);
+        clones.set(cloneKey, clone.id);
+      }
+      return clones.get(cloneKey);
+    };
+    this.groups.push(...groups);
+
+    for (const bookmark of legacyBookmarks) {
+      const portable = path.isAbsolute(bookmark.file) ? toPortablePath(bookmark.file) : bookmark;
+      const folder = portable.workspaceFolder && this.loadedFolders.has(portable.workspaceFolder)
+        ? portable.workspaceFolder
+        : primary;
+      this.bookmarks.push({
+        ...bookmark,
+        ...portable,
+        created: new Date(bookmark.created),
+        workspaceFolder: folder || undefined,
+        groupId: bookmark.groupId ? cloneInto(bookmark.groupId, folder) : undefined,
+        scope: undefined
+      });
+    }
+
+    await this.bookmarkStorage.delete('bookmarks');
+    await this.groupStorage.delete('bookmarkGroups');
+    return true;
+  }
+
+  private migrateAbsolutePaths (): boolean {
+    let migrated = false;
+    this.bookmarks.forEach(bookmark => {
+      if (path.isAbsolute(bookmark.file)) {
+        const portable = toPortablePath(bookmark.file);
+        // 只迁移位于所属文件夹内的文件
+        if (portable.workspaceFolder && portable.workspaceFolder === folderOf(bookmark)) {
+          bookmark.file = portable.file;
+          migrated = true;
+        }
+      }
+    });
+    return migrated;
+  }
+
+  private async relocateAll (bookmarks: Bookmark[]): Promise<boolean> {
+    let relocated = false;
+    const files = new Set(bookmarks.map(b => this.resolveBookmarkFile(b)));
+    for (const file of files) {
+      if (await this.relocateBookmarksInFile(file)) {
+        relocated = true;
+      }
+    }
+    return relocated;
+  }
+
+  /**
+   * 书签文件在当前环境下的绝对路径
+   */
+  public resolveBookmarkFile (bookmark: Bookmark): string {
+    return resolvePortablePath(bookmark);
+  }
+
+  /**
+   * 加载工作区文件夹中的团队书签：文件中的路径相对于该文件夹；返回是否迁移了旧格式的数据
+   */
+  private async loadTeamData (folder: string): Promise<boolean> {
+    const teamRoot = this.getTeamRoot(folder);
+    if (!teamRoot || !fs.existsSync(path.join(teamRoot, TEAM_BOOKMARK_FILE))) {
+      return false;
+    }
+
+    const storage = this.getTeamStorage(folder, teamRoot);
+    const storedBookmarks = await this.readCollection<Bookmark>(storage, 'bookmarks', 'bookmarks', this.teamCollectionId(folder, 'bookmarks'));
+    const storedGroups = await this.readCollection<BookmarkGroup>(storage, 'bookmarkGroups', 'bookmarkGroups', this.teamCollectionId(folder, 'bookmarkGroups'));
+
+    this.bookmarks.push(...storedBookmarks.items.map(bookmark => ({
+      ...bookmark,
+      workspaceFolder: folder,
+      created: new Date(bookmark.created),
+      scope: 'team' as const
+    })));
+    this.groups.push(...storedGroups.items.map(group => ({
+      ...group,
+      created: new Date(group.created),
+      priority: (group.priority ?? 0),
+      workspaceFolder: folder,
+      scope: 'team' as const
+    })));
+    return storedBookmarks.migrated || storedGroups.migrated;
+  }
+
+  private teamCollectionId (folder: string, key: string): string {
+    return `${path.join(folder, TEAM_BOOKMARK_FILE)}#${key}`;
+  }
+
+  private getTeamRoot (folder: string): string | undefined {
+    return vscode.workspace.workspaceFolders?.find(f => f.name === folder)?.uri.fsPath;
+  }
+
+  private getTeamStorage (folder: string, teamRoot: string): CollectionStorage {
+    let storage = this.teamStorages.get(folder);
+    if (!storage) {
+      // 备份放在本机，避免出现在仓库中
+      const projectName = vscode.workspace.name || 'default';
+      storage = StorageFactory.create<StoredCollection<Bookmark | BookmarkGroup>>(
+        {
+          type: 'file',
+          location: path.join(teamRoot, TEAM_BOOKMARK_FILE),
+          backupLocation: path.join(require('os').homedir(), '.vs_bookmark', projectName, 'team-backups', folder)
+        },
+        this.context
+      );
+      this.teamStorages.set(folder, storage);
+      this.watchStorage(storage);
+    }
+    return storage;
   }
 
   private async saveData (): Promise<void> {
+    // 批量操作期间只记下需要保存，结束时统一写入一次
+    if (this.batchEntries) {
+      this.batchSavePending = true;
+      return;
+    }
     try {
-      await this.bookmarkStorage.save('bookmarks', this.bookmarks);
-      await this.groupStorage.save('bookmarkGroups', this.groups);
+      for (const collection of this.getCollections()) {
+        await this.writeCollection(collection);
+      }
       this.onDidChangeTreeData.fire();
     } catch (error) {
       console.error('Failed to save data:', error);
@@ -89,7 +632,82 @@ export class BookmarkManager {
     }
   }
 
-  public async addBookmark (label?: string): Promise<void> {
+  /**
+   * 当前内存中的数据按存储位置拆分后的各个集合（见 splitByScope）；团队书签的路径相对于所属文件夹（统一为 /）
+   */
+  private getCollections (): CollectionWrite[] {
+    const bookmarks = [...this.getCommittedBookmarks(), ...this.hiddenBookmarks];
+    const collections: CollectionWrite[] = [];
+    for (const folder of this.loadedFolders) {
+      const keys = this.storageKeys(folder);
+      const { personal, team } = splitByScope(
+        bookmarks.filter(b => folderOf(b) === folder),
+        this.groups.filter(g => folderOf(g) === folder)
+      );
+      collections.push(
+        { storage: this.bookmarkStorage, key: keys.bookmarks, collectionId: keys.bookmarks, items: personal.bookmarks },
+        { storage: this.groupStorage, key: keys.groups, collectionId: keys.groups, items: personal.groups }
+      );
+
+      const teamRoot = this.getTeamRoot(folder);
+      if (!teamRoot || (!this.teamStorages.has(folder) && team.bookmarks.length === 0 && team.groups.length === 0)) {
+        continue;
+      }
+      const teamStorage = this.getTeamStorage(folder, teamRoot);
+      collections.push(
+        { storage: teamStorage, key: 'bookmarks', collectionId: this.teamCollectionId(folder, 'bookmarks'), items: team.bookmarks },
+        { storage: teamStorage, key: 'bookmarkGroups', collectionId: this.teamCollectionId(folder, 'bookmarkGroups'), items: team.groups }
+      );
+    }
+    return collections;
+  }
+
+  /**
+   * 记录与存储中一致的各集合内容，之后只写入发生变化的集合，
+   * 避免用本窗口中未修改的（可能已过期的）集合覆盖其它窗口的修改
+   */
+  private snapshotCollections (): void {
+    this.savedCollections = new Map(this.getCollections().map(c => [c.collectionId, JSON.stringify(c.items)]));
+  }
+
+  /**
+   * 是否启用了团队书签（文件夹中已有团队书签文件或已有团队书签/分组）；未指定文件夹时检查所有文件夹
+   */
+  public hasTeamScope (folder?: string): boolean {
+    const inFolder = (item: { workspaceFolder?: string }) => folder === undefined || folderOf(item) === folder;
+    return (folder === undefined ? this.teamStorages.size > 0 : this.teamStorages.has(folder))
+      || this.bookmarks.some(b => b.scope === 'team' && inFolder(b))
+      || this.groups.some(g => g.scope === 'team' && inFolder(g));
+  }
+
+  /**
+   * 已加载书签的工作区文件夹，按工作区中的顺序排列
+   */
+  public getLoadedFolders (): string[] {
+    return this.getFolderNames().filter(folder => this.loadedFolders.has(folder));
+  }
+
+  /**
+   * 是否为多根工作区（树视图按文件夹分节显示）
+   */
+  public isMultiRoot (): boolean {
+    return (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+  }
+
+  /**
+   * 返回用于持久化的书签快照：未保存文档中的书签使用其已提交位置
+   */
+  private getCommittedBookmarks (): Bookmark[] {
+    if (this.committedPositions.size === 0) {
+      return this.bookmarks;
+    }
+    return this.bookmarks.map(bookmark => {
+      const committed = this.committedPositions.get(this.resolveBookmarkFile(bookmark))?.get(bookmark.id);
+      return committed ? { ...bookmark, ...committed } : bookmark;
+    });
+  }
+
+  public async addBookmark (label?: string, scope: BookmarkScope = 'personal'): Promise<void> {
     await this.ready;
     const editor = vscode.window.activeTextEditor;
     if (!editor) {
@@ -97,53 +715,141 @@ export class BookmarkManager {
       return;
     }
 
-    const position = editor.selection.active;
-    const document = editor.document;
-
-    // 生成默认标签
-    const defaultLabel =
-      label || `${path.basename(document.fileName)}:${position.line + 1}`;
+    const created = await this.createBookmarkAt(editor.document, editor.selection, scope);
+    if (!created) {
+      return;
+    }
 
     const inputLabel = await vscode.window.showInputBox({
       prompt: '输入书签标签',
-      value: defaultLabel
+      value: label || created.bookmark.label
     });
 
     if (inputLabel) {
-      // 查找默认分组
-      const defaultGroup = this.groups.find(g => g.isDefault);
-
-      const bookmark: Bookmark = {
-        id: this.generateId(),
-        label: inputLabel,
-        file: document.fileName,
-        line: position.line,
-        column: position.character,
-        created: new Date(),
-        groupId: defaultGroup?.id, // 如果有默认分组，自动加入
-        priority: 0
-      };
-
-      this.bookmarks.push(bookmark);
+      const bookmark: Bookmark = { ...created.bookmark, label: inputLabel };
+      this.recordChange(`添加书签 "${inputLabel}"`, () => this.bookmarks.push(bookmark));
       await this.saveData(); // 保存到文件存储
 
-      const groupInfo = defaultGroup ? ` 到分组 "${defaultGroup.name}"` : '';
+      const groupInfo = created.group ? ` 到分组 "${created.group.name}"` : '';
       vscode.window.showInformationMessage(
         `书签 "${inputLabel}" 已添加${groupInfo}`
       );
     }
   }
 
+  /**
+   * 切换指定行（默认为光标所在行）的书签：该行已有书签时删除，否则以默认名称直接添加个人书签
+   */
+  public async toggleBookmark (document?: vscode.TextDocument, line?: number): Promise<void> {
+    await this.ready;
+    const editor = vscode.window.activeTextEditor;
+    const targetDocument = document ?? editor?.document;
+    if (!targetDocument) {
+      vscode.window.showErrorMessage('没有活动的编辑器');
+      return;
+    }
+    // 未指定行时使用光标位置或选中的范围（从行号的右键菜单触发时指定了行）
+    const selection = line === undefined && editor
+      ? editor.selection
+      : new vscode.Range(line ?? 0, 0, line ?? 0, 0);
+
+    const existing = this.getBookmarksForFile(targetDocument.fileName).filter(b => b.line === selection.start.line);
+    if (existing.length > 0) {
+      this.recordChange(`删除书签 "${existing.map(b => b.label).join('", "')}"`, () => {
+        this.bookmarks = this.bookmarks.filter(b => !existing.includes(b));
+      });
+      await this.saveData();
+      vscode.window.setStatusBarMessage(`$(bookmark) 已删除书签 "${existing.map(b => b.label).join('", "')}"`, 3000);
+      return;
+    }
+
+    const created = await this.createBookmarkAt(targetDocument, selection, 'personal');
+    if (!created) {
+      return;
+    }
+    this.recordChange(`添加书签 "${created.bookmark.label}"`, () => this.bookmarks.push(created.bookmark));
+    await this.saveData();
+    vscode.window.setStatusBarMessage(`$(bookmark) 已添加书签 "${created.bookmark.label}"`, 3000);
+  }
+
+  /**
+   * 在文档的指定位置创建书签（尚未加入书签列表），使用默认名称并归入对应文件夹、范围的默认分组；
+   * 范围不为空时创建范围书签。无法在该文件上添加团队书签时提示并返回 undefined
+   */
+  private async createBookmarkAt (
+    document: vscode.TextDocument,
+    selection: vscode.Range,
+    scope: BookmarkScope
+  ): Promise<{ bookmark: Bookmark, group?: BookmarkGroup } | undefined> {
+    // 工作区之外的文件归属主文件夹
+    const portable = toPortablePath(document.fileName);
+    const folder = portable.workspaceFolder ?? this.getPrimaryFolder();
+    if (scope === 'team' && !portable.workspaceFolder) {
+      vscode.window.showErrorMessage('团队书签只能添加在当前工作区内的文件上');
+      return undefined;
+    }
+
+    // 查找默认分组（仅当与新书签属于同一文件夹、同一范围时使用）
+    const defaultGroup = this.groups.find(g => g.isDefault && scopeOf(g) === scope && folderOf(g) === folder);
+
+    const position = selection.start;
+    const range = rangeEndOf(position, selection.end, line => document.lineAt(line).text.length);
+
+    const bookmark: Bookmark = {
+      id: this.generateId(),
+      label: `${path.basename(document.fileName)}:${lineSpanOf({ line: position.line, ...range })}`,
+      ...portable,
+      workspaceFolder: folder || undefined,
+      line: position.line,
+      column: position.character,
+      ...range,
+      created: new Date(),
+      groupId: defaultGroup?.id, // 如果有默认分组，自动加入
+      priority: 0,
+      anchor: createAnchor(splitLines(document.getText()), position.line),
+      scope: scope === 'team' ? 'team' : undefined
+    };
+    // 按分支显示时，新的个人书签属于当前分支
+    const branch = scope === 'personal' ? this.getCurrentBranch(folder) : undefined;
+    if (branch) {
+      bookmark.branch = branch;
+    }
+    if (vscode.workspace.getConfiguration('bookmarkPlugin').get<boolean>('followSymbols', true)) {
+      const symbols = await this.getDocumentSymbols(document.uri);
+      bookmark.symbol = symbols && captureSymbol(symbols, position.line);
+      if (!bookmark.symbol) {
+        delete bookmark.symbol;
+      }
+    }
+    return { bookmark, group: defaultGroup };
+  }
+
   public async removeBookmark (bookmarkId: string): Promise<void> {
     await this.ready;
     const index = this.bookmarks.findIndex(b => b.id === bookmarkId);
     if (index !== -1) {
-      const removedBookmark = this.bookmarks.splice(index, 1)[0];
+      const removedBookmark = this.bookmarks[index];
+      this.recordChange(`删除书签 "${removedBookmark.label}"`, () => this.bookmarks.splice(index, 1));
       await this.saveData();
-      vscode.window.showInformationMessage(
-        `书签 "${removedBookmark.label}" 已删除`
-      );
+      this.showUndoableMessage(`书签 "${removedBookmark.label}" 已删除`);
+    }
+  }
+
+  /**
+   * 批量删除书签（例如树视图中多选的书签），只写入一次存储
+   */
+  public async removeBookmarks (bookmarkIds: string[]): Promise<number> {
+    await this.ready;
+    const removed = this.bookmarks.filter(b => bookmarkIds.includes(b.id));
+    if (removed.length === 0) {
+      return 0;
     }
+    this.recordChange(`删除 ${removed.length} 个书签`, () => {
+      this.bookmarks = this.bookmarks.filter(b => !removed.includes(b));
+    });
+    await this.saveData();
+    this.showUndoableMessage(`已删除 ${removed.length} 个书签`);
+    return removed.length;
   }
 
   public jumpToBookmark (bookmarkId: string): void {
@@ -154,18 +860,32 @@ export class BookmarkManager {
     }
 
     vscode.workspace
-      .openTextDocument(bookmark.file)
-      .then(document => {
+      .openTextDocument(this.resolveBookmarkFile(bookmark))
+      .then(async document => {
+        // 符号书签先按符号的当前位置重新定位
+        await this.resolveSymbols(document);
         return vscode.window.showTextDocument(document);
       })
       .then(
         editor => {
+          // 范围书签选中整个范围
           const position = new vscode.Position(bookmark.line, bookmark.column);
-          editor.selection = new vscode.Selection(position, position);
-          editor.revealRange(new vscode.Range(position, position));
+          const end = bookmark.endLine === undefined ? position : new vscode.Position(bookmark.endLine, bookmark.endColumn ?? 0);
+          editor.selection = new vscode.Selection(position, end);
+          editor.revealRange(new vscode.Range(position, end));
         },
-        (error: any) => {
-          vscode.window.showErrorMessage(`无法打开文件: ${error.message}`);
+        async (error: unknown) => {
+          // 文件已被删除或重命名时标记为失效书签，并提供清理入口
+          await this.validateBookmarks();
+          if (!this.problems.has(bookmark.id)) {
+            vscode.window.showErrorMessage(`无法打开文件: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+          }
+          const cleanup = '清理失效书签…';
+          const choice = await vscode.window.showWarningMessage(`书签 "${bookmark.label}" 所在的文件不存在：${bookmark.file}`, cleanup);
+          if (choice === cleanup) {
+            vscode.commands.executeCommand('vscode-bookmark-plugin.cleanupBookmarks');
+          }
         }
       );
   }
@@ -174,7 +894,10 @@ export class BookmarkManager {
     return [...this.bookmarks];
   }
 
-  public getBookmarksGrouped (): {
+  /**
+   * 按分组整理书签；指定 scope / folder 时只返回该范围、该工作区文件夹内的书签与分组
+   */
+  public getBookmarksGrouped (scope?: BookmarkScope, folder?: string): {
     ungrouped: Bookmark[]
     rootGroups: BookmarkGroup[]
     groupedBookmarks: Map<string, Bookmark[]>
@@ -183,14 +906,18 @@ export class BookmarkManager {
     const ungrouped: Bookmark[] = [];
     const groupedBookmarks = new Map<string, Bookmark[]>();
     const groupedSubGroups = new Map<string, BookmarkGroup[]>();
+    const inSection = (item: Bookmark | BookmarkGroup) =>
+      (!scope || scopeOf(item) === scope) && (folder === undefined || folderOf(item) === folder);
+    const groups = this.groups.filter(inSection);
+    const bookmarks = this.bookmarks.filter(inSection);
 
     // 初始化所有分组的书签数组
-    this.groups.forEach(group => {
+    groups.forEach(group => {
       groupedBookmarks.set(group.id, []);
     });
 
     // 分类书签
-    this.bookmarks.forEach(bookmark => {
+    bookmarks.forEach(bookmark => {
       if (!bookmark.groupId) {
         ungrouped.push(bookmark);
       } else {
@@ -206,7 +933,7 @@ export class BookmarkManager {
 
     // 分类分组（根据是否有父分组）
     const rootGroups: BookmarkGroup[] = [];
-    this.groups.forEach(group => {
+    groups.forEach(group => {
       if (!group.parentId) {
         rootGroups.push(group);
       } else {
@@ -243,8 +970,36 @@ export class BookmarkManager {
     return { ungrouped, rootGroups, groupedBookmarks, groupedSubGroups };
   }
 
-  private sortBookmarks = (a: Bookmark, b: Bookmark): number => {
-  // 先按优先级降序排序（数字越大优先级越高），再按创建时间升序
+  /**
+   * 按树视图中的顺序返回书签：依次为各工作区文件夹、个人/团队范围，分组内先子分组后书签，
+   * 根级别分组之后为未分组的书签。指定 groupId 时只返回该分组（含子分组）中的书签
+   */
+  public getBookmarksInTreeOrder (groupId?: string): Bookmark[] {
+    const data = this.getBookmarksGrouped();
+    const result: Bookmark[] = [];
+    const walk = (id: string) => {
+      (data.groupedSubGroups.get(id) ?? []).forEach(sub => walk(sub.id));
+      result.push(...(data.groupedBookmarks.get(id) ?? []));
+    };
+    if (groupId) {
+      walk(groupId);
+      return result;
+    }
+
+    const folders = this.isMultiRoot() ? this.getLoadedFolders() : [undefined];
+    for (const folder of folders) {
+      const scopes: (BookmarkScope | undefined)[] = this.hasTeamScope(folder) ? ['personal', 'team'] : [undefined];
+      for (const scope of scopes) {
+        const section = this.getBookmarksGrouped(scope, folder);
+        section.rootGroups.forEach(group => walk(group.id));
+        result.push(...section.ungrouped);
+      }
+    }
+    return result;
+  }
+
+  private sortBookmarks = (a: Bookmark, b: Bookmark): number => {
+  // 先按优先级降序排序（数字越大优先级越高），再按创建时间升序
   const pa = a.priority ?? 0;
   const pb = b.priority ?? 0;
   if (pa !== pb) { return pb - pa; }
@@ -256,26 +1011,36 @@ export class BookmarkManager {
   }
 
   // 示例：创建分组时调用
-  public async createGroup (groupName: string, isDefault: boolean = false, parentId?: string): Promise<BookmarkGroup | undefined> {
+  public async createGroup (
+    groupName: string,
+    isDefault: boolean = false,
+    parentId?: string,
+    scope: BookmarkScope = 'personal',
+    folder: string = this.getPrimaryFolder()
+  ): Promise<BookmarkGroup | undefined> {
     if (!groupName) {
       vscode.window.showWarningMessage('用户取消输入');
       return undefined;
     }
 
+    // 子分组与父分组的范围、所属文件夹一致
+    const parent = parentId ? this.groups.find(g => g.id === parentId) : undefined;
+    const groupScope = parent ? scopeOf(parent) : scope;
+    const groupFolder = parent ? folderOf(parent) : folder;
+    if (groupScope === 'team' && !this.getTeamRoot(groupFolder)) {
+      vscode.window.showErrorMessage('当前没有打开工作区，无法创建团队分组');
+      return undefined;
+    }
+
     // 检查同级是否存在同名分组
-    const siblings = this.groups.filter(g => g.parentId === parentId);
+    const siblings = this.groups.filter(g =>
+      g.parentId === parentId && scopeOf(g) === groupScope && folderOf(g) === groupFolder
+    );
     if (siblings.some(g => g.name === groupName)) {
       vscode.window.showWarningMessage(`创建分组失败：同级已存在名为 "${groupName}" 的分组`);
       return undefined;
     }
 
-    // 如果要创建为默认分组，先取消其他分组的默认状态，确保只有一个默认分组
-    if (isDefault) {
-      this.groups.forEach(g => {
-        g.isDefault = false;
-      });
-    }
-
     // 计算当前最大 priority，并为新分组分配更高的优先级
     const maxPriority = this.groups.reduce((max, g) => Math.max(max, g.priority ?? 0), 0);
     const newGroup: BookmarkGroup = {
@@ -284,10 +1049,22 @@ export class BookmarkManager {
       isDefault: isDefault,
       created: new Date(),
       parentId: parentId,
-      priority: maxPriority + 1
+      priority: maxPriority + 1,
+      scope: groupScope === 'team' ? 'team' : undefined,
+      workspaceFolder: groupFolder || undefined
     };
 
-    this.groups.push(newGroup);
+    this.recordChange(`创建分组 "${groupName}"`, () => {
+      // 如果要创建为默认分组，先取消同一文件夹中其他分组的默认状态，确保每个文件夹只有一个默认分组
+      if (isDefault) {
+        this.groups.forEach(g => {
+          if (folderOf(g) === groupFolder) {
+            g.isDefault = false;
+          }
+        });
+      }
+      this.groups.push(newGroup);
+    });
     await this.saveData(); // 保存到文件存储
 
     const defaultInfo = isDefault ? ' (默认分组)' : '';
@@ -309,13 +1086,15 @@ export class BookmarkManager {
     }
 
     // 检查同级是否存在同名分组（排除自身）
-    const siblings = this.groups.filter(g => g.parentId === group.parentId && g.id !== groupId);
+    const siblings = this.groups.filter(g => g.parentId === group.parentId && g.id !== groupId && this.inSameSection(g, group));
     if (siblings.some(g => g.name === newName)) {
       vscode.window.showWarningMessage(`重命名失败：同级已存在名为 "${newName}" 的分组`);
       return false;
     }
 
-    group.name = newName;
+    this.recordChange(`重命名分组 "${group.name}"`, () => {
+      group.name = newName;
+    });
     await this.saveData();
     return true;
   }
@@ -351,6 +1130,13 @@ export class BookmarkManager {
   }
 
   public getGroupPath (groupId: string): string {
+    return this.getGroupNames(groupId).join(' > ');
+  }
+
+  /**
+   * 分组从根分组到自身的名称
+   */
+  public getGroupNames (groupId: string): string[] {
     const path: string[] = [];
     let currentGroup = this.groups.find(g => g.id === groupId);
 
@@ -363,7 +1149,7 @@ export class BookmarkManager {
       }
     }
 
-    return path.join(' > ');
+    return path;
   }
 
   public async removeGroup (groupId: string): Promise<void> {
@@ -372,27 +1158,23 @@ export class BookmarkManager {
       return;
     }
 
-    // 递归删除所有子分组
-    const subGroups = this.groups.filter(g => g.parentId === groupId);
-    for (const subGroup of subGroups) {
-      await this.removeGroup(subGroup.id);
-    }
-
-    // 将该分组下的书签移出分组
-    this.bookmarks.forEach(bookmark => {
-      if (bookmark.groupId === groupId) {
-        bookmark.groupId = group.parentId; // 移到父分组，如果没有父分组则为undefined
-      }
-    });
-
-    // 删除分组
-    this.groups = this.groups.filter(g => g.id !== groupId);
+    this.recordChange(`删除分组 "${group.name}"`, () => this.deleteGroupTree(group));
     await this.saveData();
 
     const moveInfo = group.parentId ? `移至父分组` : `移至根级别`;
-    vscode.window.showInformationMessage(
-      `分组 "${group.name}" 已删除，其下内容已${moveInfo}`
-    );
+    this.showUndoableMessage(`分组 "${group.name}" 已删除，其下内容已${moveInfo}`);
+  }
+
+  // 递归删除分组及其所有子分组，其中的书签最终移到被删除分组的父分组（没有父分组时为根级别）
+  private deleteGroupTree (group: BookmarkGroup): void {
+    this.groups.filter(g => g.parentId === group.id).forEach(subGroup => this.deleteGroupTree(subGroup));
+
+    [...this.bookmarks, ...this.hiddenBookmarks].forEach(bookmark => {
+      if (bookmark.groupId === group.id) {
+        bookmark.groupId = group.parentId;
+      }
+    });
+    this.groups = this.groups.filter(g => g.id !== group.id);
   }
 
   public async moveBookmarkToGroup (
@@ -401,20 +1183,49 @@ export class BookmarkManager {
   ): Promise<void> {
     await this.ready;
     const bookmark = this.bookmarks.find(b => b.id === bookmarkId);
-    if (bookmark) {
-      bookmark.groupId = groupId;
+    if (bookmark && this.recordChange(`移动书签 "${bookmark.label}"`, () => this.assignBookmarkGroup(bookmark, groupId))) {
       await this.saveData();
     }
   }
 
+  /**
+   * 批量移动书签到分组，只写入一次存储；不指定分组时移到 scope 范围（默认为书签当前范围）的根级别。
+   * 返回实际移动的书签数，其它工作区文件夹的书签与不能成为团队书签的书签会被跳过
+   */
+  public async moveBookmarksToGroup (bookmarkIds: string[], groupId?: string, scope?: BookmarkScope): Promise<number> {
+    await this.ready;
+    const group = groupId ? this.groups.find(g => g.id === groupId) : undefined;
+    const targetScope = (bookmark: Bookmark): BookmarkScope => group ? scopeOf(group) : scope ?? scopeOf(bookmark);
+    const bookmarks = this.bookmarks.filter(b => bookmarkIds.includes(b.id));
+    const inFolder = bookmarks.filter(b => !group || folderOf(group) === folderOf(b));
+    if (inFolder.length < bookmarks.length) {
+      vscode.window.showWarningMessage(`${bookmarks.length - inFolder.length} 个书签未移动：不能将书签移动到其它工作区文件夹的分组`);
+    }
+    // 团队书签文件中只能保存工作区内的相对路径
+    const movable = inFolder.filter(b => targetScope(b) !== 'team' || scopeOf(b) === 'team' || this.isInTeamRoot(b));
+    if (movable.length < inFolder.length) {
+      vscode.window.showWarningMessage(`${inFolder.length - movable.length} 个书签未移动：只有当前工作区内文件上的书签才能移动到团队书签`);
+    }
+
+    const moved = movable.filter(b => b.groupId !== groupId || scopeOf(b) !== targetScope(b));
+    if (moved.length === 0) {
+      return 0;
+    }
+    this.recordChange(`移动 ${moved.length} 个书签`, () => moved.forEach(b => {
+      b.scope = targetScope(b) === 'team' ? 'team' : undefined;
+      b.groupId = groupId;
+    }));
+    await this.saveData();
+    return moved.length;
+  }
+
   public async moveBookmarkToGroupWithMessage (
     bookmarkId: string,
     groupId?: string
   ): Promise<void> {
     await this.ready;
     const bookmark = this.bookmarks.find(b => b.id === bookmarkId);
-    if (bookmark) {
-      bookmark.groupId = groupId;
+    if (bookmark && this.recordChange(`移动书签 "${bookmark.label}"`, () => this.assignBookmarkGroup(bookmark, groupId))) {
       await this.saveData();
 
       if (groupId) {
@@ -430,18 +1241,20 @@ export class BookmarkManager {
 
   public async setGroupAsDefault (groupId: string): Promise<void> {
     await this.ready;
-    // 先取消所有分组的默认状态
-    this.groups.forEach(group => {
-      group.isDefault = false;
-    });
-
-    // 设置指定分组为默认
+    // 设置指定分组为默认，并取消同一文件夹中其它分组的默认状态
     const group = this.groups.find(g => g.id === groupId);
     if (group) {
-      group.isDefault = true;
-      // 将默认分组置顶：分配更高的 priority
-      const maxPriority = this.groups.reduce((max, g) => Math.max(max, g.priority ?? 0), 0);
-      group.priority = maxPriority + 1;
+      this.recordChange(`设置默认分组 "${group.name}"`, () => {
+        this.groups.forEach(g => {
+          if (folderOf(g) === folderOf(group)) {
+            g.isDefault = false;
+          }
+        });
+        group.isDefault = true;
+        // 将默认分组置顶：分配更高的 priority
+        const maxPriority = this.groups.reduce((max, g) => Math.max(max, g.priority ?? 0), 0);
+        group.priority = maxPriority + 1;
+      });
       await this.saveData();
       vscode.window.showInformationMessage(
         `分组 "${group.name}" 已设置为默认分组`
@@ -457,9 +1270,10 @@ export class BookmarkManager {
     const bm = this.bookmarks.find(b => b.id === bookmarkId);
     if (!bm) { return false; }
 
-    // 把未分组视为同一组，使用空串作为键
-    const key = bm.groupId ?? '__root__';
-    const siblings = this.bookmarks.filter(b => (b.groupId ?? '__root__') === key);
+    // 把同一文件夹、同一范围内的未分组书签视为同一组
+    const rootKey = (b: Bookmark) => `__root__${folderOf(b)}/${scopeOf(b)}`;
+    const key = bm.groupId ?? rootKey(bm);
+    const siblings = this.bookmarks.filter(b => (b.groupId ?? rootKey(b)) === key);
     siblings.sort(this.sortBookmarks);
 
     const idx = siblings.findIndex(b => b.id === bookmarkId);
@@ -473,8 +1287,10 @@ export class BookmarkManager {
     const pa = a.priority ?? 0;
     const pb = b.priority ?? 0;
     // 交换优先级
-    a.priority = pb;
-    b.priority = pa;
+    this.recordChange(`调整书签 "${a.label}" 的顺序`, () => {
+      a.priority = pb;
+      b.priority = pa;
+    });
 
     await this.saveData();
     return true;
@@ -488,7 +1304,7 @@ export class BookmarkManager {
     const group = this.groups.find(g => g.id === groupId);
     if (!group) { return false; }
 
-    const siblings = this.groups.filter(g => g.parentId === group.parentId);
+    const siblings = this.groups.filter(g => g.parentId === group.parentId && this.inSameSection(g, group));
     siblings.sort((a, b) => {
       const pa = a.priority ?? 0;
       const pb = b.priority ?? 0;
@@ -506,8 +1322,10 @@ export class BookmarkManager {
     const b = siblings[target];
     const pa = a.priority ?? 0;
     const pb = b.priority ?? 0;
-    a.priority = pb;
-    b.priority = pa;
+    this.recordChange(`调整分组 "${a.name}" 的顺序`, () => {
+      a.priority = pb;
+      b.priority = pa;
+    });
 
     await this.saveData();
     return true;
@@ -531,41 +1349,61 @@ export class BookmarkManager {
     const movingGroup = this.groups.find(g => g.id === groupId);
     if (!movingGroup) { return; }
 
-    // 从当前列表移除正在移动的分组（临时），以便计算新的兄弟列表
-    this.groups = this.groups.filter(g => g.id !== groupId);
+    // 移入其它范围的父分组时，整个子树随之切换范围；移到根级时保持原范围
+    const newParent = newParentId ? this.groups.find(g => g.id === newParentId) : undefined;
+    const targetScope = newParent ? scopeOf(newParent) : scopeOf(movingGroup);
+    // 书签保存在所属文件夹的存储中，分组不能移动到其它工作区文件夹
+    if (newParent && folderOf(newParent) !== folderOf(movingGroup)) {
+      vscode.window.showWarningMessage('移动失败：不能将分组移动到其它工作区文件夹');
+      return;
+    }
+    if (targetScope === 'team' && scopeOf(movingGroup) !== 'team' && !this.canMoveSubtreeToTeam(groupId)) {
+      return;
+    }
 
-    // 将分组设为新的父分组
     // 在实际改变 parentId 之前，检查目标父级同级是否存在同名分组
-    const targetSiblings = this.groups.filter(g => g.parentId === newParentId && g.id !== groupId);
+    const targetSiblings = this.groups.filter(g =>
+      g.parentId === newParentId && g.id !== groupId && scopeOf(g) === targetScope && folderOf(g) === folderOf(movingGroup)
+    );
     if (targetSiblings.some(g => g.name === movingGroup.name)) {
       vscode.window.showWarningMessage(`移动失败：目标位置已存在同名分组 "${movingGroup.name}"`);
       return;
     }
 
-    movingGroup.parentId = newParentId;
+    this.recordChange(`移动分组 "${movingGroup.name}"`, () => {
+      if (targetScope !== scopeOf(movingGroup)) {
+        this.applyScopeToSubtree(movingGroup, targetScope);
+      }
 
-    // 收集目标父分组下的兄弟（不包含正在移动的分组）
-    const siblings = this.groups.filter(g => g.parentId === newParentId);
+      // 从当前列表移除正在移动的分组（临时），以便计算新的兄弟列表
+      this.groups = this.groups.filter(g => g.id !== groupId);
 
-    // 计算插入位置（默认为顶部）
-    let insertIndex = 0;
-    if (insertBeforeGroupId) {
-      const idx = siblings.findIndex(g => g.id === insertBeforeGroupId);
-      insertIndex = idx === -1 ? 0 : idx;
-    }
+      // 将分组设为新的父分组
+      movingGroup.parentId = newParentId;
 
-    // 在兄弟列表中插入正在移动的分组
-    siblings.splice(insertIndex, 0, movingGroup);
+      // 收集目标父分组下的兄弟（不包含正在移动的分组）
+      const siblings = this.groups.filter(g => g.parentId === newParentId && this.inSameSection(g, movingGroup));
 
-    // 重新分配 priority：兄弟越靠前 priority 越大（从 siblings.length 到 1）
-    const total = siblings.length;
-    for (let i = 0; i < siblings.length; i++) {
-      siblings[i].priority = total - i;
-    }
+      // 计算插入位置（默认为顶部）
+      let insertIndex = 0;
+      if (insertBeforeGroupId) {
+        const idx = siblings.findIndex(g => g.id === insertBeforeGroupId);
+        insertIndex = idx === -1 ? 0 : idx;
+      }
 
-    // 将之前属于该父分组的项从主组数组中移除，然后把重新排序后的 siblings 放回去
-    this.groups = this.groups.filter(g => g.parentId !== newParentId);
-    this.groups.push(...siblings);
+      // 在兄弟列表中插入正在移动的分组
+      siblings.splice(insertIndex, 0, movingGroup);
+
+      // 重新分配 priority：兄弟越靠前 priority 越大（从 siblings.length 到 1）
+      const total = siblings.length;
+      for (let i = 0; i < siblings.length; i++) {
+        siblings[i].priority = total - i;
+      }
+
+      // 将之前属于该父分组的项从主组数组中移除，然后把重新排序后的 siblings 放回去
+      this.groups = this.groups.filter(g => !siblings.includes(g));
+      this.groups.push(...siblings);
+    });
 
     await this.saveData();
   }
@@ -577,11 +1415,22 @@ export class BookmarkManager {
     await this.ready;
     const bookmark = this.bookmarks.find(b => b.id === bookmarkId);
     if (bookmark) {
-      bookmark.priority = priority;
+      this.recordChange(`设置书签 "${bookmark.label}" 的优先级`, () => {
+        bookmark.priority = priority;
+      });
       await this.saveData();
     }
   }
 
+  public async setBookmarksPriority (bookmarkIds: string[], priority: number): Promise<void> {
+    await this.ready;
+    const bookmarks = this.bookmarks.filter(b => bookmarkIds.includes(b.id));
+    this.recordChange(`设置 ${bookmarks.length} 个书签的优先级`, () => bookmarks.forEach(b => {
+      b.priority = priority;
+    }));
+    await this.saveData();
+  }
+
   public async renameBookmark (bookmarkId: string, newLabel: string): Promise<boolean> {
     await this.ready;
     const bookmark = this.bookmarks.find(b => b.id === bookmarkId);
@@ -589,20 +1438,1007 @@ export class BookmarkManager {
       return false;
     }
     const old = bookmark.label;
-    bookmark.label = newLabel;
+    this.recordChange(`重命名书签 "${old}"`, () => {
+      bookmark.label = newLabel;
+    });
     await this.saveData();
     vscode.window.showInformationMessage(`书签 "${old}" 已重命名为 "${newLabel}"`);
     return true;
   }
 
+  /**
+   * 所有书签中出现过的标签及其书签数
+   */
+  public getAllTags (): TagCount[] {
+    return collectTags(this.bookmarks);
+  }
+
+  public async addTags (bookmarkIds: string[], tags: string[]): Promise<void> {
+    await this.ready;
+    this.recordChange('添加标签', () => [...this.bookmarks, ...this.hiddenBookmarks]
+      .filter(b => bookmarkIds.includes(b.id))
+      .forEach(b => {
+        b.tags = Array.from(new Set([...(b.tags ?? []), ...tags]));
+      }));
+    await this.saveData();
+  }
+
+  public async removeTags (bookmarkIds: string[], tags: string[]): Promise<void> {
+    await this.ready;
+    this.recordChange('移除标签', () => [...this.bookmarks, ...this.hiddenBookmarks]
+      .filter(b => bookmarkIds.includes(b.id))
+      .forEach(b => {
+        const remaining = (b.tags ?? []).filter(tag => !tags.includes(tag));
+        b.tags = remaining.length > 0 ? remaining : undefined;
+      }));
+    await this.saveData();
+  }
+
+  /**
+   * 在所有书签（包括其它分支上的书签）中将 sources 中的标签替换为 target：只有一个来源时为重命名，
+   * target 已存在或有多个来源时为合并。返回受影响的书签数
+   */
+  public async mergeTags (sources: string[], target: string): Promise<number> {
+    await this.ready;
+    let changed = 0;
+    this.recordChange(sources.length === 1 ? `重命名标签 #${sources[0]}` : '合并标签', () => [...this.bookmarks, ...this.hiddenBookmarks].forEach(b => {
+      const tags = replaceTags(b.tags, sources, target);
+      if (tags) {
+        b.tags = tags;
+        changed++;
+      }
+    }));
+    if (changed > 0) {
+      await this.saveData();
+    }
+    return changed;
+  }
+
+  /**
+   * 设置书签的 Markdown 笔记，空白内容视为删除笔记
+   */
+  public async setBookmarkNotes (bookmarkId: string, notes: string): Promise<boolean> {
+    await this.ready;
+    const bookmark = this.bookmarks.find(b => b.id === bookmarkId);
+    if (!bookmark) {
+      return false;
+    }
+    const trimmed = notes.replace(/\s+$/, '');
+    this.recordChange(`编辑书签 "${bookmark.label}" 的笔记`, () => {
+      bookmark.description = trimmed || undefined;
+    });
+    await this.saveData();
+    return true;
+  }
+
+  /**
+   * 将书签放入分组（undefined 为根级别），书签随之采用分组的范围；
+   * 不能放入其它工作区文件夹的分组
+   */
+  private assignBookmarkGroup (bookmark: Bookmark, groupId?: string): boolean {
+    const group = groupId ? this.groups.find(g => g.id === groupId) : undefined;
+    if (group && folderOf(group) !== folderOf(bookmark)) {
+      vscode.window.showWarningMessage('移动失败：不能将书签移动到其它工作区文件夹的分组');
+      return false;
+    }
+    if (group && scopeOf(group) === 'team' && scopeOf(bookmark) !== 'team' && !this.isInTeamRoot(bookmark)) {
+      vscode.window.showErrorMessage('只有当前工作区内文件上的书签才能移动到团队书签');
+      return false;
+    }
+    bookmark.groupId = groupId;
+    if (group) {
+      bookmark.scope = group.scope;
+    }
+    return true;
+  }
+
+  private inSameSection (a: Bookmark | BookmarkGroup, b: Bookmark | BookmarkGroup): boolean {
+    return scopeOf(a) === scopeOf(b) && folderOf(a) === folderOf(b);
+  }
+
+  /**
+   * 将书签移动到另一个范围（个人/团队）的根级别
+   */
+  public async setBookmarkScope (bookmarkId: string, scope: BookmarkScope): Promise<boolean> {
+    await this.ready;
+    const bookmark = this.bookmarks.find(b => b.id === bookmarkId);
+    if (!bookmark || scopeOf(bookmark) === scope) {
+      return false;
+    }
+    if (scope === 'team' && !this.isInTeamRoot(bookmark)) {
+      vscode.window.showErrorMessage('只有当前工作区内文件上的书签才能移动到团队书签');
+      return false;
+    }
+
+    const group = bookmark.groupId ? this.groups.find(g => g.id === bookmark.groupId) : undefined;
+    this.recordChange(`移动书签 "${bookmark.label}"`, () => {
+      if (group && scopeOf(group) !== scope) {
+        bookmark.groupId = undefined;
+      }
+      bookmark.scope = scope === 'team' ? 'team' : undefined;
+    });
+    await this.saveData();
+    return true;
+  }
+
+  /**
+   * 将分组（连同子分组与其中的书签）移动到另一个范围的根级别
+   */
+  public async setGroupScope (groupId: string, scope: BookmarkScope): Promise<boolean> {
+    await this.ready;
+    const group = this.groups.find(g => g.id === groupId);
+    if (!group || scopeOf(group) === scope) {
+      return false;
+    }
+    if (scope === 'team' && !this.canMoveSubtreeToTeam(groupId)) {
+      return false;
+    }
+
+    const siblings = this.groups.filter(g => !g.parentId && g.id !== groupId && scopeOf(g) === scope && folderOf(g) === folderOf(group));
+    if (siblings.some(g => g.name === group.name)) {
+      vscode.window.showWarningMessage(`移动失败：目标位置已存在同名分组 "${group.name}"`);
+      return false;
+    }
+
+    this.recordChange(`移动分组 "${group.name}"`, () => {
+      group.parentId = undefined;
+      this.applyScopeToSubtree(group, scope);
+    });
+    await this.saveData();
+    return true;
+  }
+
+  /**
+   * 分组（及子分组）中的书签是否都位于工作区内，可以随分组移动到团队书签；不能时提示并返回 false
+   */
+  private canMoveSubtreeToTeam (groupId: string): boolean {
+    const subtree = this.collectSubtreeGroupIds(groupId);
+    const outside = this.bookmarks.filter(b => b.groupId && subtree.has(b.groupId) && !this.isInTeamRoot(b));
+    if (outside.length > 0) {
+      vscode.window.showErrorMessage(`分组中有 ${outside.length} 个书签不在当前工作区内，无法移动到团队书签`);
+      return false;
+    }
+    return true;
+  }
+
+  private applyScopeToSubtree (group: BookmarkGroup, scope: BookmarkScope): void {
+    const subtree = this.collectSubtreeGroupIds(group.id);
+    const value = scope === 'team' ? 'team' : undefined;
+    this.groups.forEach(g => {
+      if (subtree.has(g.id)) {
+        g.scope = value;
+      }
+    });
+    this.bookmarks.forEach(b => {
+      if (b.groupId && subtree.has(b.groupId)) {
+        b.scope = value;
+      }
+    });
+  }
+
+  private collectSubtreeGroupIds (groupId: string): Set<string> {
+    const ids = new Set<string>([groupId]);
+    let added = true;
+    while (added) {
+      added = false;
+      this.groups.forEach(g => {
+        if (g.parentId && ids.has(g.parentId) && !ids.has(g.id)) {
+          ids.add(g.id);
+          added = true;
+        }
+      });
+    }
+    return ids;
+  }
+
+  /**
+   * 书签文件是否位于其所属工作区文件夹内（相对路径），只有这样的书签才能共享给团队
+   */
+  private isInTeamRoot (bookmark: Bookmark): boolean {
+    return !!bookmark.workspaceFolder && !path.isAbsolute(bookmark.file);
+  }
+
   /**
    * 返回指定文件路径下的所有书签（内存中的快照）
    */
   public getBookmarksForFile (filePath: string): Bookmark[] {
-    return this.bookmarks.filter(b => b.file === filePath);
+    return this.bookmarks.filter(b => this.resolveBookmarkFile(b) === filePath);
+  }
+
+  /**
+   * 将一次文档编辑应用到该文件中的书签上（行号/列号平移，被删除区域内的书签收缩到删除起点）。
+   * 首次编辑时记录书签的已提交位置；若编辑后文档回到未修改状态（撤销或还原），则恢复到已提交位置。
+   * 返回是否有书签位置发生变化。
+   */
+  public applyDocumentChanges (event: vscode.TextDocumentChangeEvent): boolean {
+    const filePath = event.document.fileName;
+    const bookmarksForFile = this.getBookmarksForFile(filePath);
+    if (bookmarksForFile.length === 0 || event.contentChanges.length === 0) {
+      return false;
+    }
+
+    if (!event.document.isDirty) {
+      const restored = this.restoreCommittedPositions(filePath);
+      if (restored) {
+        this.onDidChangeTreeData.fire();
+      }
+      return restored;
+    }
+
+    let committed = this.committedPositions.get(filePath);
+    if (!committed) {
+      committed = new Map();
+      this.committedPositions.set(filePath, committed);
+    }
+
+    let changed = false;
+    for (const bookmark of bookmarksForFile) {
+      const current = positionOf(bookmark);
+      if (!committed.has(bookmark.id)) {
+        committed.set(bookmark.id, current);
+      }
+      const next = applyChangesToRange(current, event.contentChanges);
+      if (!samePosition(next, current)) {
+        Object.assign(bookmark, next);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.onDidChangeTreeData.fire();
+    }
+    return changed;
+  }
+
+  /**
+   * 文档保存后，将该文件中书签的当前位置作为新的已提交位置，刷新内容锚点并持久化
+   */
+  public async commitDocumentPositions (document: vscode.TextDocument): Promise<void> {
+    await this.ready;
+    const bookmarksForFile = this.getBookmarksForFile(document.fileName);
+    const hadPending = this.committedPositions.delete(document.fileName);
+    if (bookmarksForFile.length === 0) {
+      return;
+    }
+
+    const lines = splitLines(document.getText());
+    let anchorsChanged = false;
+    for (const bookmark of bookmarksForFile) {
+      const anchor = createAnchor(lines, bookmark.line);
+      if (bookmark.anchor?.hash !== anchor.hash || bookmark.orphaned) {
+        anchorsChanged = true;
+      }
+      bookmark.anchor = anchor;
+      delete bookmark.orphaned;
+    }
+
+    // 保存后按书签的新位置重新记录所在符号（符号在编辑器中被重命名、书签在符号内移动）
+    const symbolBookmarks = bookmarksForFile.filter(b => b.symbol);
+    const symbols = symbolBookmarks.length > 0 ? await this.getDocumentSymbols(document.uri) : undefined;
+    for (const bookmark of symbols ? symbolBookmarks : []) {
+      const symbol = captureSymbol(symbols!, bookmark.line);
+      if (symbol && JSON.stringify(symbol) !== JSON.stringify(bookmark.symbol)) {
+        bookmark.symbol = symbol;
+        anchorsChanged = true;
+      }
+    }
+
+    if (hadPending || anchorsChanged) {
+      await this.saveData();
+    }
+  }
+
+  /**
+   * 按所在符号的当前位置重新定位文档中的符号书签（打开文件或跳转时调用）；
+   * 找不到符号时保留原来的行。有未保存编辑的文档由行号跟踪负责
+   */
+  public async resolveSymbols (document: vscode.TextDocument): Promise<void> {
+    await this.ready;
+    const bookmarksForFile = this.getBookmarksForFile(document.fileName).filter(b => b.symbol);
+    if (bookmarksForFile.length === 0 || document.isDirty) {
+      return;
+    }
+    const symbols = await this.getDocumentSymbols(document.uri);
+    if (!symbols) {
+      return;
+    }
+
+    const lines = splitLines(document.getText());
+    let changed = false;
+    for (const bookmark of bookmarksForFile) {
+      const line = resolveSymbolLine(symbols, bookmark.symbol!);
+      if (line === undefined || line === bookmark.line) {
+        continue;
+      }
+      if (bookmark.endLine !== undefined) {
+        bookmark.endLine += line - bookmark.line;
+      }
+      bookmark.line = line;
+      bookmark.anchor = createAnchor(lines, line);
+      delete bookmark.orphaned;
+      changed = true;
+    }
+    if (changed) {
+      await this.saveData();
+    }
+  }
+
+  // 文档的符号树；语言不提供层级符号（或尚未就绪）时返回 undefined
+  private async getDocumentSymbols (uri: vscode.Uri): Promise<SymbolNode[] | undefined> {
+    try {
+      const result = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined>(
+        'vscode.executeDocumentSymbolProvider',
+        uri
+      );
+      const symbols = (result ?? []).filter((s): s is vscode.DocumentSymbol => 'children' in s);
+      return symbols.length > 0 ? symbols : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * 文件在磁盘上被修改后（例如 git pull、格式化工具），按内容锚点重新定位该文件中的书签
+   */
+  public async relocateBookmarksForFile (filePath: string): Promise<void> {
+    await this.ready;
+    // 新出现的文件可能是在 VS Code 之外重命名或移动过来的
+    const followed = await this.followMovedFiles([filePath]);
+    if (await this.relocateBookmarksInFile(filePath) || followed) {
+      await this.checkBookmarks(this.getBookmarksForFile(filePath));
+      await this.saveData();
+    } else if (await this.checkBookmarks(this.getBookmarksForFile(filePath))) {
+      this.onDidChangeTreeData.fire();
+    }
+  }
+
+  private async relocateBookmarksInFile (filePath: string): Promise<boolean> {
+    const bookmarksForFile = this.getBookmarksForFile(filePath);
+    // 有未保存编辑的文档由行号跟踪负责
+    if (bookmarksForFile.length === 0 || this.committedPositions.has(filePath)) {
+      return false;
+    }
+
+    const lines = await this.readFileLines(filePath);
+    if (!lines) {
+      return false;
+    }
+
+    let changed = false;
+    for (const bookmark of bookmarksForFile) {
+      if (this.relocateBookmark(bookmark, lines)) {
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  private relocateBookmark (bookmark: Bookmark, lines: string[]): boolean {
+    // 旧数据没有锚点：以当前内容补建锚点
+    if (!bookmark.anchor) {
+      bookmark.anchor = createAnchor(lines, bookmark.line);
+      return true;
+    }
+
+    const resolution = resolveAnchor(lines, bookmark.anchor, bookmark.line);
+    if (!resolution) {
+      if (bookmark.orphaned) {
+        return false;
+      }
+      bookmark.orphaned = true;
+      return true;
+    }
+
+    const moved = resolution.line !== bookmark.line;
+    const changed = moved || !resolution.exact || !!bookmark.orphaned;
+    // 范围书签的终点随起点平移同样的行数
+    if (bookmark.endLine !== undefined) {
+      bookmark.endLine += resolution.line - bookmark.line;
+    }
+    bookmark.line = resolution.line;
+    delete bookmark.orphaned;
+    // 相似匹配或位置变化后，以新内容更新锚点，便于后续继续跟踪
+    if (moved || !resolution.exact) {
+      bookmark.anchor = createAnchor(lines, resolution.line);
+    }
+    return changed;
+  }
+
+  /**
+   * 检查所有书签的文件与行号，返回失效的书签
+   */
+  public async validateBookmarks (): Promise<Bookmark[]> {
+    await this.ready;
+    if (await this.checkBookmarks()) {
+      this.onDidChangeTreeData.fire();
+    }
+    return this.bookmarks.filter(b => this.problems.has(b.id));
+  }
+
+  /**
+   * 书签最近一次检查发现的问题；未检查或没有问题时为 undefined
+   */
+  public getProblem (bookmarkId: string): BookmarkProblem | undefined {
+    return this.problems.get(bookmarkId);
+  }
+
+  // 重新检查书签（默认为所有书签），返回检查结果是否有变化
+  private async checkBookmarks (bookmarks: Bookmark[] = this.bookmarks): Promise<boolean> {
+    const lineCounts = new Map<string, number | undefined>();
+    let changed = false;
+    for (const bookmark of bookmarks) {
+      const file = this.resolveBookmarkFile(bookmark);
+      if (!lineCounts.has(file)) {
+        lineCounts.set(file, await this.lineCountOf(file));
+      }
+      const problem = checkBookmark(bookmark, lineCounts.get(file));
+      if (problem !== this.problems.get(bookmark.id)) {
+        changed = true;
+      }
+      if (problem) {
+        this.problems.set(bookmark.id, problem);
+      } else {
+        this.problems.delete(bookmark.id);
+      }
+    }
+    return changed;
+  }
+
+  // 文件的行数（已打开的文档包括未保存的编辑）；文件不存在时为 undefined
+  private async lineCountOf (filePath: string): Promise<number | undefined> {
+    const openDocument = vscode.workspace.textDocuments.find(d => d.fileName === filePath);
+    if (openDocument) {
+      return openDocument.lineCount;
+    }
+    try {
+      const content = await fs.promises.readFile(filePath, 'utf-8');
+      return splitLines(content).length;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * 清理失效书签：relocations 中的书签移到新文件（按内容锚点在新文件中定位，找不到时放在最后一行），
+   * 并删除 removals 中的书签。只写入一次存储，撤销时作为一步
+   */
+  public async repairBookmarks (relocations: { bookmarkId: string, file: string }[], removals: string[]): Promise<void> {
+    await this.ready;
+    const targets = new Map<string, string[]>();
+    for (const { file } of relocations) {
+      if (!targets.has(file)) {
+        targets.set(file, await this.readFileLines(file) ?? []);
+      }
+    }
+
+    const count = relocations.length + removals.length;
+    this.recordChange(`清理 ${count} 个失效书签`, () => {
+      relocations.forEach(({ bookmarkId, file }) => {
+        const bookmark = this.bookmarks.find(b => b.id === bookmarkId);
+        if (bookmark) {
+          this.moveToFile(bookmark, file, targets.get(file)!);
+        }
+      });
+      this.bookmarks = this.bookmarks.filter(b => !removals.includes(b.id));
+    });
+    await this.checkBookmarks();
+    await this.saveData();
+  }
+
+  // 将书签指向另一个文件：换到其它工作区文件夹时离开原来的分组，工作区之外的文件不能作为团队书签
+  private setBookmarkFile (bookmark: Bookmark, filePath: string): void {
+    const portable = toPortablePath(filePath);
+    const folder = portable.workspaceFolder ?? folderOf(bookmark);
+    if (folder !== folderOf(bookmark) || (bookmark.scope === 'team' && !portable.workspaceFolder)) {
+      bookmark.groupId = undefined;
+      bookmark.scope = portable.workspaceFolder ? bookmark.scope : undefined;
+    }
+    bookmark.file = portable.file;
+    bookmark.workspaceFolder = folder || undefined;
+  }
+
+  // 将书签移到另一个文件，并在新文件中重新定位
+  private moveToFile (bookmark: Bookmark, filePath: string, lines: string[]): void {
+    this.setBookmarkFile(bookmark, filePath);
+
+    const lastLine = Math.max(lines.length - 1, 0);
+    const resolution = bookmark.anchor && resolveAnchor(lines, bookmark.anchor, bookmark.line);
+    const line = resolution ? resolution.line : Math.min(bookmark.line, lastLine);
+    if (bookmark.endLine !== undefined) {
+      bookmark.endLine = Math.min(bookmark.endLine + line - bookmark.line, lastLine);
+    }
+    bookmark.line = line;
+    bookmark.anchor = createAnchor(lines, line);
+    delete bookmark.orphaned;
+  }
+
+  /**
+   * 文件或文件夹在 VS Code 中重命名（移动）后，更新其中书签的路径；文件夹重命名时其中的所有文件一起更新
+   */
+  public async handleFilesRenamed (renames: { oldPath: string, newPath: string }[]): Promise<void> {
+    await this.ready;
+    const renamed = this.bookmarks.filter(bookmark => {
+      const newPath = mapRenamedPath(this.resolveBookmarkFile(bookmark), renames);
+      if (newPath) {
+        this.setBookmarkFile(bookmark, newPath);
+      }
+      return !!newPath;
+    });
+    // 未保存文档中书签的已提交位置随文档一起移动
+    Array.from(this.committedPositions.keys()).forEach(file => {
+      const newPath = mapRenamedPath(file, renames);
+      if (newPath) {
+        this.committedPositions.set(newPath, this.committedPositions.get(file)!);
+        this.committedPositions.delete(file);
+      }
+    });
+    if (renamed.length > 0) {
+      await this.checkBookmarks(renamed);
+      await this.saveData();
+    }
+  }
+
+  /**
+   * 文件或文件夹在 VS Code 中被删除后，按 bookmarkPlugin.onFileDelete 设置删除其中的书签，
+   * 或保留并标记为失效书签（ask 时询问用户）
+   */
+  public async handleFilesDeleted (paths: string[]): Promise<void> {
+    await this.ready;
+    const inside = (bookmark: Bookmark) => paths.some(p => isSameOrInside(this.resolveBookmarkFile(bookmark), p));
+    const affected = this.bookmarks.filter(inside);
+    Array.from(this.committedPositions.keys())
+      .filter(file => paths.some(p => isSameOrInside(file, p)))
+      .forEach(file => this.committedPositions.delete(file));
+    if (affected.length === 0) {
+      return;
+    }
+    if (await this.checkBookmarks(affected)) {
+      this.onDidChangeTreeData.fire();
+    }
+
+    const setting = vscode.workspace.getConfiguration('bookmarkPlugin').get<string>('onFileDelete', 'ask');
+    let remove = setting === 'remove';
+    if (setting === 'ask') {
+      const removeAction = '删除书签';
+      const keepAction = '保留为失效书签';
+      const deleted = paths.length === 1 ? `“${path.basename(paths[0])}”` : ` ${paths.length} 个文件或文件夹`;
+      const choice = await vscode.window.showWarningMessage(
+        `已删除的${deleted}中有 ${affected.length} 个书签，是否一并删除？`,
+        removeAction,
+        keepAction
+      );
+      remove = choice === removeAction;
+    }
+    if (!remove) {
+      return;
+    }
+
+    // 询问期间书签可能已被删除，或文件已经恢复
+    const removed = this.bookmarks.filter(b => affected.includes(b) && this.problems.get(b.id) === 'missingFile');
+    if (removed.length === 0) {
+      return;
+    }
+    this.recordChange(`删除 ${removed.length} 个书签`, () => {
+      this.bookmarks = this.bookmarks.filter(b => !removed.includes(b));
+    });
+    await this.saveData();
+    this.showUndoableMessage(`已删除 ${removed.length} 个书签（所在文件已删除）`);
+  }
+
+  /**
+   * 重新检查位于 fsPath（文件或文件夹）中的书签，例如文件在 VS Code 之外被删除后
+   */
+  public async checkBookmarksInside (fsPath: string): Promise<void> {
+    await this.ready;
+    if (await this.checkBookmarks(this.bookmarks.filter(b => isSameOrInside(this.resolveBookmarkFile(b), fsPath)))) {
+      this.onDidChangeTreeData.fire();
+    }
+  }
+
+  /**
+   * 找回在 VS Code 之外被重命名或移动的文件中的书签：对文件不存在的书签，在 candidates
+   * （未指定时在工作区中按文件名查找）中寻找同名文件，原文件中带锚点的书签都能在其中按内容锚点定位时，
+   * 视为同一个文件并把这些书签移过去。返回是否有书签被移动
+   */
+  private async followMovedFiles (candidates?: string[]): Promise<boolean> {
+    const missing = new Map<string, Bookmark[]>();
+    this.bookmarks
+      .filter(b => this.problems.get(b.id) === 'missingFile')
+      .forEach(b => {
+        const file = this.resolveBookmarkFile(b);
+        missing.set(file, [...(missing.get(file) ?? []), b]);
+      });
+
+    let moved = false;
+    for (const [oldFile, bookmarks] of missing) {
+      const anchored = bookmarks.filter(b => b.anchor);
+      if (anchored.length === 0) {
+        continue;
+      }
+      const name = path.basename(oldFile);
+      const files = candidates
+        ? candidates.filter(f => path.basename(f) === name)
+        : (await vscode.workspace.findFiles(`**/${name}`, '**/node_modules/**', 20)).map(uri => uri.fsPath);
+      for (const file of rankCandidates(oldFile, files)) {
+        const lines = await this.readFileLines(file);
+        const resolutions = lines ? anchored.map(b => resolveAnchor(lines, b.anchor!, b.line)) : [];
+        if (!lines || resolutions.some(r => !r) || !resolutions.some(r => r!.exact)) {
+          continue;
+        }
+        bookmarks.forEach(b => {
+          this.moveToFile(b, file, lines);
+          this.problems.delete(b.id);
+        });
+        moved = true;
+        break;
+      }
+    }
+    return moved;
+  }
+
+  private async readFileLines (filePath: string): Promise<string[] | undefined> {
+    const openDocument = vscode.workspace.textDocuments.find(d => d.fileName === filePath);
+    if (openDocument) {
+      return openDocument.isDirty ? undefined : splitLines(openDocument.getText());
+    }
+    try {
+      const content = await fs.promises.readFile(filePath, 'utf-8');
+      return splitLines(content);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * 丢弃未保存的位置变化（例如文档未保存即关闭），恢复到已提交位置
+   */
+  public discardDocumentPositions (document: vscode.TextDocument): void {
+    if (this.restoreCommittedPositions(document.fileName)) {
+      this.onDidChangeTreeData.fire();
+    }
+  }
+
+  private restoreCommittedPositions (filePath: string): boolean {
+    const committed = this.committedPositions.get(filePath);
+    if (!committed) {
+      return false;
+    }
+    this.committedPositions.delete(filePath);
+
+    let changed = false;
+    for (const bookmark of this.getBookmarksForFile(filePath)) {
+      const position = committed.get(bookmark.id);
+      if (position && !samePosition(position, positionOf(bookmark))) {
+        Object.assign(bookmark, position);
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * 文件夹当前所在的 Git 分支；未启用按分支显示、不是 git 仓库或处于分离头指针状态时为 undefined
+   */
+  public getCurrentBranch (folder: string = this.getPrimaryFolder()): string | undefined {
+    return this.branchScoping ? this.branches.get(folder) : undefined;
+  }
+
+  /**
+   * 重新读取设置与各文件夹当前的分支（例如切换分支之后），有变化时切换显示的书签
+   */
+  public async refreshBranches (): Promise<void> {
+    await this.ready;
+    if (!(await this.readBranches())) {
+      return;
+    }
+    this.partitionBookmarks();
+    // 切换分支后文件内容与显示的书签都已变化，之前的撤销历史无法再对应
+    this.history.clear();
+    this.onDidChangeHistory.fire();
+    this.onDidChangeBranch.fire();
+    // 切换分支后文件内容可能已变化，按锚点重新定位并检查显示的书签
+    await this.relocateAll(this.bookmarks);
+    await this.checkBookmarks();
+    await this.saveData();
+  }
+
+  /**
+   * 把属于某个分支的书签复制到指定分支（复制出的书签只在该分支上显示），返回复制的数量；
+   * 团队书签与全局书签在所有分支上显示，跳过
+   */
+  public async copyBookmarksToBranch (bookmarkIds: string[], branch: string): Promise<number> {
+    await this.ready;
+    const copies: Bookmark[] = this.getCommittedBookmarks()
+      .filter(b => bookmarkIds.includes(b.id) && scopeOf(b) === 'personal' && b.branch && b.branch !== branch)
+      .map(b => ({ ...b, id: this.generateId(), created: new Date(), branch }));
+    if (copies.length === 0) {
+      return 0;
+    }
+    // 复制到其它分支的书签直接隐藏
+    this.recordChange(`复制书签到分支 "${branch}"`, () => {
+      this.bookmarks.push(...copies.filter(b => this.isVisible(b)));
+      this.hiddenBookmarks.push(...copies.filter(b => !this.isVisible(b)));
+    });
+    await this.saveData();
+    return copies.length;
+  }
+
+  /**
+   * 把个人书签设为全局（在所有分支上显示）或只属于所在文件夹的当前分支，返回修改的数量
+   */
+  public async setBookmarksBranch (bookmarkIds: string[], target: 'global' | 'current'): Promise<number> {
+    await this.ready;
+    const branchOf = (bookmark: Bookmark) => target === 'global' ? undefined : this.getCurrentBranch(folderOf(bookmark));
+    const bookmarks = this.bookmarks.filter(b =>
+      bookmarkIds.includes(b.id) && scopeOf(b) === 'personal' && (target === 'global' || branchOf(b)) && b.branch !== branchOf(b));
+    if (bookmarks.length === 0) {
+      return 0;
+    }
+    this.recordChange(target === 'global' ? '设为全局书签' : '设为当前分支的书签', () => {
+      for (const bookmark of bookmarks) {
+        const branch = branchOf(bookmark);
+        if (branch) {
+          bookmark.branch = branch;
+        } else {
+          delete bookmark.branch;
+        }
+      }
+    });
+    await this.saveData();
+    return bookmarks.length;
+  }
+
+  // 读取按分支显示的设置与各文件夹当前的分支，返回是否有变化
+  private async readBranches (): Promise<boolean> {
+    const scoping = vscode.workspace.getConfiguration('bookmarkPlugin').get<boolean>('branchScoping', false);
+    let changed = scoping !== this.branchScoping;
+    this.branchScoping = scoping;
+    for (const folder of this.loadedFolders) {
+      const folderPath = vscode.workspace.workspaceFolders?.find(f => f.name === folder)?.uri.fsPath;
+      const branch = folderPath ? await readBranch(folderPath) : undefined;
+      if (branch !== this.branches.get(folder)) {
+        changed = true;
+      }
+      this.branches.set(folder, branch);
+    }
+    return changed;
+  }
+
+  // 书签是否在当前分支上显示：团队书签与全局书签总是显示；分离头指针时只显示全局书签
+  private isVisible (bookmark: Bookmark): boolean {
+    return !this.branchScoping || scopeOf(bookmark) === 'team' || !bookmark.branch ||
+      bookmark.branch === this.branches.get(folderOf(bookmark));
+  }
+
+  // 按当前分支重新划分显示与隐藏的书签
+  private partitionBookmarks (): void {
+    const shown = new Set(this.bookmarks);
+    const all = [...this.bookmarks, ...this.hiddenBookmarks];
+    this.bookmarks = all.filter(b => this.isVisible(b));
+    this.hiddenBookmarks = all.filter(b => !this.isVisible(b));
+
+    for (const bookmark of this.hiddenBookmarks.filter(b => shown.has(b))) {
+      // 隐藏的书签不再跟踪编辑，未保存文档中的书签恢复到已提交位置
+      const committed = this.committedPositions.get(this.resolveBookmarkFile(bookmark));
+      const position = committed?.get(bookmark.id);
+      if (position) {
+        Object.assign(bookmark, position);
+        committed!.delete(bookmark.id);
+      }
+      this.problems.delete(bookmark.id);
+    }
+    for (const bookmark of this.bookmarks.filter(b => !shown.has(b))) {
+      // 隐藏期间所在的分组可能已被删除或移到了团队范围
+      const group = bookmark.groupId ? this.groups.find(g => g.id === bookmark.groupId) : undefined;
+      if (bookmark.groupId && (!group || !this.inSameSection(group, bookmark))) {
+        bookmark.groupId = undefined;
+      }
+    }
+  }
+
+  /**
+   * 导入书签包。merge：分组按路径（同一文件夹、范围内的同名父子关系）合并到现有分组，
+   * 与现有书签位置相同（同一文件夹、文件与行）的书签视为重复并跳过；replace：清空所有书签与分组（包括团队书签）后导入；
+   * 按分支显示时其它分支的书签不在当前的书签中，不会被清空（也无法通过撤销恢复）
+   */
+  public async importBookmarks (bundle: BookmarkBundle, mode: 'merge' | 'replace'): Promise<ImportResult> {
+    await this.ready;
+    const primary = this.getPrimaryFolder();
+    const ownerOf = (folder?: string) => folder !== undefined && this.loadedFolders.has(folder) ? folder : primary;
+    // 没有对应工作区文件夹时无法保存团队书签，改为个人书签
+    const scopeIn = (scope: BookmarkScope, folder: string) =>
+      scope === 'team' && this.getTeamRoot(folder) ? 'team' as const : undefined;
+
+    const result: ImportResult = { bookmarksAdded: 0, groupsAdded: 0, duplicates: 0 };
+    const imported: Bookmark[] = [];
+    this.recordChange(mode === 'replace' ? '导入书签（替换）' : '导入书签', () => {
+      if (mode === 'replace') {
+        this.bookmarks = [];
+        this.groups = [];
+        this.committedPositions.clear();
+      }
+
+      // 先处理父分组，再处理子分组
+      const groupIds = new Map<string, string>();
+      const importedGroupIds = new Set(bundle.groups.map(g => g.id));
+      const pending = [...bundle.groups];
+      while (pending.length > 0) {
+        const index = pending.findIndex(g => !g.parentId || !importedGroupIds.has(g.parentId) || groupIds.has(g.parentId));
+        if (index === -1) {
+          break; // 父子关系成环，忽略剩余的分组
+        }
+        const [group] = pending.splice(index, 1);
+        const parentId = group.parentId ? groupIds.get(group.parentId) : undefined;
+        const parent = parentId ? this.groups.find(g => g.id === parentId) : undefined;
+        const folder = parent ? folderOf(parent) : ownerOf(group.workspaceFolder);
+        const scope = parent ? parent.scope : scopeIn(scopeOf(group), folder);
+
+        const existing = this.groups.find(g =>
+          g.parentId === parentId && g.name === group.name && folderOf(g) === folder && g.scope === scope
+        );
+        if (existing) {
+          groupIds.set(group.id, existing.id);
+          continue;
+        }
+        const id = this.groups.some(g => g.id === group.id) ? this.generateId() : group.id;
+        this.groups.push({
+          ...group,
+          id,
+          parentId,
+          created: new Date(group.created),
+          priority: group.priority ?? 0,
+          isDefault: mode === 'replace' && group.isDefault,
+          scope,
+          workspaceFolder: folder || undefined
+        });
+        groupIds.set(group.id, id);
+        result.groupsAdded++;
+      }
+
+      for (const bookmark of bundle.bookmarks) {
+        const groupId = bookmark.groupId ? groupIds.get(bookmark.groupId) : undefined;
+        const group = groupId ? this.groups.find(g => g.id === groupId) : undefined;
+        const folder = group ? folderOf(group) : ownerOf(bookmark.workspaceFolder);
+        if (this.bookmarks.some(b => folderOf(b) === folder && b.file === bookmark.file && b.line === bookmark.line)) {
+          result.duplicates++;
+          continue;
+        }
+        const id = [...this.bookmarks, ...this.hiddenBookmarks].some(b => b.id === bookmark.id) ? this.generateId() : bookmark.id;
+        // 工作区之外的文件不能作为团队书签，放到个人书签的根级别
+        const outside = (group ? group.scope : scopeIn(scopeOf(bookmark), folder)) === 'team' && path.isAbsolute(bookmark.file);
+        const item: Bookmark = {
+          ...bookmark,
+          id,
+          groupId: outside ? undefined : groupId,
+          created: new Date(bookmark.created),
+          priority: bookmark.priority ?? 0,
+          workspaceFolder: folder || undefined,
+          scope: outside ? undefined : (group ? group.scope : scopeIn(scopeOf(bookmark), folder))
+        };
+        // 属于其它分支的书签导入后会被隐藏，改为全局书签
+        if (!this.isVisible(item)) {
+          delete item.branch;
+        }
+        this.bookmarks.push(item);
+        imported.push(item);
+        result.bookmarksAdded++;
+      }
+    });
+
+    await this.relocateAll(imported);
+    await this.saveData();
+    return result;
+  }
+
+  /**
+   * 执行一步同步的修改并记入撤销历史。
+   * 修改必须是同步的，以免把等待期间因编辑文件而更新的行号也记为这一步的修改
+   */
+  private recordChange<T> (label: string, mutate: () => T): T {
+    const before = takeSnapshot(this.historyState());
+    const value = mutate();
+    const entry = diffSnapshots(label, before, takeSnapshot(this.historyState()));
+    if (entry && this.batchEntries) {
+      this.batchEntries.push(entry);
+    } else if (entry) {
+      this.history.push(entry);
+      this.onDidChangeHistory.fire();
+    }
+    return value;
+  }
+
+  // 撤销历史包括其它分支上隐藏的书签
+  private historyState (): HistoryState<Bookmark, BookmarkGroup> {
+    return { bookmarks: [...this.bookmarks, ...this.hiddenBookmarks], groups: this.groups };
+  }
+
+  /**
+   * 将 run 中的多步修改合并为一步撤销历史（例如拖放多个分组），并且只在结束时写入一次存储；嵌套调用时并入外层
+   */
+  public async batch<T> (label: string, run: () => Promise<T>): Promise<T> {
+    if (this.batchEntries) {
+      return run();
+    }
+    const entries: HistoryEntry<Bookmark, BookmarkGroup>[] = [];
+    this.batchEntries = entries;
+    this.batchSavePending = false;
+    try {
+      return await run();
+    } finally {
+      this.batchEntries = undefined;
+      const entry = mergeEntries(label, entries);
+      if (entry) {
+        this.history.push(entry);
+        this.onDidChangeHistory.fire();
+      }
+      if (this.batchSavePending) {
+        this.batchSavePending = false;
+        await this.saveData();
+      }
+    }
+  }
+
+  public getUndoLabel (): string | undefined {
+    return this.history.peek()?.label;
+  }
+
+  public getRedoLabel (): string | undefined {
+    return this.history.peekRedo()?.label;
+  }
+
+  /**
+   * 撤销最近的一步书签操作，返回该步的说明；没有可撤销的操作时返回 undefined
+   */
+  public async undo (): Promise<string | undefined> {
+    await this.ready;
+    const entry = this.history.undo();
+    if (entry) {
+      await this.applyHistory(entry, 'undo');
+    }
+    return entry?.label;
+  }
+
+  public async redo (): Promise<string | undefined> {
+    await this.ready;
+    const entry = this.history.redo();
+    if (entry) {
+      await this.applyHistory(entry, 'redo');
+    }
+    return entry?.label;
+  }
+
+  private async applyHistory (entry: HistoryEntry<Bookmark, BookmarkGroup>, direction: 'undo' | 'redo'): Promise<void> {
+    const state = applyEntry(this.historyState(), entry, direction);
+    this.bookmarks = state.bookmarks.filter(b => this.isVisible(b));
+    this.hiddenBookmarks = state.bookmarks.filter(b => !this.isVisible(b));
+    this.groups = state.groups;
+    this.onDidChangeHistory.fire();
+    await this.saveData();
+  }
+
+  /**
+   * 显示带“撤销”按钮的提示，用于删除等破坏性操作；
+   * 只有这一步仍是最近的一步时才撤销，避免连带撤销之后的其它操作
+   */
+  public showUndoableMessage (message: string): void {
+    const entry = this.history.peek();
+    if (!entry) {
+      vscode.window.showInformationMessage(message);
+      return;
+    }
+    vscode.window.showInformationMessage(message, '撤销').then(async choice => {
+      if (choice !== '撤销') {
+        return;
+      }
+      if (this.history.peek() !== entry) {
+        vscode.window.showWarningMessage('之后还有其它书签操作，请使用“撤销书签操作”命令逐步撤销');
+        return;
+      }
+      await this.undo();
+    });
   }
 
-  private generateId (): string {
+  public generateId (): string {
     return Date.now().toString(36) + Math.random().toString(36).substr(2);
   }
 }
@@ -0,0 +1,276 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Bookmark, BookmarkManager, folderOf, lineSpanOf, scopeOf } from './bookmarkManager';
+import { notesText } from './bookmarkNotes';
+import { matchesTagPrefixes, splitTagQuery } from './tags';
+
+/**
+ * 查询中的每个词（以空白分隔）都要模糊匹配（按顺序出现的字符，不区分大小写）至少一个字段，
+ * 或者出现在某段正文（例如笔记）中；正文较长，按子串匹配以免几乎任何查询都能匹配
+ */
+export function matchesQuery (query: string, fields: string[], texts: string[] = []): boolean {
+  const words = query.toLowerCase().split(/\s+/).filter(word => word);
+  const haystacks = fields.map(field => field.toLowerCase());
+  const bodies = texts.map(text => text.toLowerCase());
+  return words.every(word =>
+    haystacks.some(haystack => isSubsequence(word, haystack)) || bodies.some(body => body.includes(word))
+  );
+}
+
+function isSubsequence (word: string, text: string): boolean {
+  let index = 0;
+  for (const char of text) {
+    if (char === word[index]) {
+      index++;
+      if (index === word.length) {
+        return true;
+      }
+    }
+  }
+  return word.length === 0;
+}
+
+/**
+ * 按优先级降序（数字越大优先级越高）、再按最近使用时间降序排列；
+ * 最近使用时间为最后一次跳转的时间，从未跳转过的书签使用创建时间
+ */
+export function rankBookmarks (bookmarks: Bookmark[], visits: Record<string, number>): Bookmark[] {
+  const recency = (bookmark: Bookmark) => Math.max(visits[bookmark.id] ?? 0, new Date(bookmark.created).getTime());
+  return [...bookmarks].sort((a, b) => {
+    const pa = a.priority ?? 0;
+    const pb = b.priority ?? 0;
+    if (pa !== pb) { return pb - pa; }
+    return recency(b) - recency(a);
+  });
+}
+
+/**
+ * 上一个/下一个书签的范围：当前文件、当前分组、全部书签（按树视图顺序）
+ */
+export type NavigationScope = 'file' | 'group' | 'global';
+
+/**
+ * 在按顺序排列的书签中取当前书签的下一个（direction 为 1）或上一个（-1），到达两端时回绕；
+ * 当前书签不在列表中时，下一个为第一个，上一个为最后一个
+ */
+export function stepInList (bookmarks: Bookmark[], currentId: string | undefined, direction: 1 | -1): Bookmark | undefined {
+  if (bookmarks.length === 0) {
+    return undefined;
+  }
+  const index = bookmarks.findIndex(b => b.id === currentId);
+  if (index === -1) {
+    return direction === 1 ? bookmarks[0] : bookmarks[bookmarks.length - 1];
+  }
+  return bookmarks[(index + direction + bookmarks.length) % bookmarks.length];
+}
+
+/**
+ * 在同一文件的书签中取光标所在行之后（或之前）最近的书签，到达文件两端时回绕
+ */
+export function stepInFile (bookmarks: Bookmark[], line: number, direction: 1 | -1): Bookmark | undefined {
+  const sorted = [...bookmarks].sort((a, b) => a.line - b.line || a.column - b.column);
+  if (direction === 1) {
+    return sorted.find(b => b.line > line) ?? sorted[0];
+  }
+  return [...sorted].reverse().find(b => b.line < line) ?? sorted[sorted.length - 1];
+}
+
+interface BookmarkPickItem extends vscode.QuickPickItem {
+  bookmark: Bookmark
+  fields: string[]
+  texts: string[]
+}
+
+// 最多保留的跳转记录数
+const MAX_VISITS = 200;
+
+/**
+ * “转到书签…”：可按名称、分组路径、文件名与书签所在行的代码模糊搜索，也可以搜索笔记中的文字，
+ * 以 # 开头的词按标签筛选（例如 “#auth token”），
+ * 选择变化时预览书签位置，确认后跳转，取消时回到原来的编辑器
+ */
+export class BookmarkNavigator {
+  private visits: Record<string, number>;
+  private currentId: string | undefined;   // 最近一次跳转到的书签
+
+  constructor (private context: vscode.ExtensionContext, private bookmarkManager: BookmarkManager) {
+    this.visits = context.workspaceState.get<Record<string, number>>('bookmarkVisits') ?? {};
+  }
+
+  /**
+   * 记录一次跳转，用于按最近使用排序
+   */
+  public recordVisit (bookmarkId: string): void {
+    this.currentId = bookmarkId;
+    this.visits[bookmarkId] = Date.now();
+    const ids = Object.keys(this.visits);
+    if (ids.length > MAX_VISITS) {
+      ids.sort((a, b) => this.visits[a] - this.visits[b])
+        .slice(0, ids.length - MAX_VISITS)
+        .forEach(id => delete this.visits[id]);
+    }
+    this.context.workspaceState.update('bookmarkVisits', this.visits);
+  }
+
+  /**
+   * initialQuery 为搜索框的初始内容，例如侧边栏当前的标签筛选
+   */
+  public async show (initialQuery = ''): Promise<void> {
+    const bookmarks = this.bookmarkManager.getAllBookmarks();
+    if (bookmarks.length === 0) {
+      vscode.window.showInformationMessage('还没有书签');
+      return;
+    }
+
+    const items = rankBookmarks(bookmarks, this.visits).map(bookmark => this.createItem(bookmark));
+    const originalEditor = vscode.window.activeTextEditor;
+    const originalSelection = originalEditor?.selection;
+    let accepted = false;
+
+    const quickPick = vscode.window.createQuickPick<BookmarkPickItem>();
+    quickPick.placeholder = '搜索书签名称、笔记、分组、文件或代码，#标签 按标签筛选';
+    quickPick.matchOnDescription = true;
+    quickPick.matchOnDetail = true;
+    const filter = (value: string) => {
+      const { tags, text } = splitTagQuery(value);
+      quickPick.items = items.filter(item =>
+        matchesTagPrefixes(item.bookmark.tags, tags) && matchesQuery(text, item.fields, item.texts));
+    };
+    quickPick.value = initialQuery;
+    filter(initialQuery);
+
+    const disposables: vscode.Disposable[] = [
+      // 自行过滤以保持按优先级与最近使用排序；alwaysShow 避免被快速选择框再次按名称过滤
+      quickPick.onDidChangeValue(filter),
+      quickPick.onDidChangeActive(active => {
+        if (active[0]) {
+          this.preview(active[0].bookmark);
+        }
+      }),
+      quickPick.onDidAccept(() => {
+        const picked = quickPick.selectedItems[0] ?? quickPick.activeItems[0];
+        if (!picked) {
+          return;
+        }
+        accepted = true;
+        quickPick.hide();
+        this.recordVisit(picked.bookmark.id);
+        this.bookmarkManager.jumpToBookmark(picked.bookmark.id);
+      }),
+      quickPick.onDidHide(() => {
+        disposables.forEach(d => d.dispose());
+        quickPick.dispose();
+        if (!accepted && originalEditor) {
+          vscode.window.showTextDocument(originalEditor.document, {
+            viewColumn: originalEditor.viewColumn,
+            selection: originalSelection
+          });
+        }
+      })
+    ];
+    quickPick.show();
+  }
+
+  /**
+   * 跳转到指定范围内的下一个（direction 为 1）或上一个（-1）书签，返回跳转到的书签
+   */
+  public async step (scope: NavigationScope, direction: 1 | -1): Promise<Bookmark | undefined> {
+    const editor = vscode.window.activeTextEditor;
+    let target: Bookmark | undefined;
+
+    if (scope === 'file') {
+      if (!editor) {
+        vscode.window.showInformationMessage('请先打开一个文件');
+        return undefined;
+      }
+      const bookmarks = this.bookmarkManager.getBookmarksForFile(editor.document.uri.fsPath);
+      target = stepInFile(bookmarks, editor.selection.active.line, direction);
+      if (!target) {
+        vscode.window.showInformationMessage('当前文件中没有书签');
+        return undefined;
+      }
+    } else {
+      const current = this.getCurrentBookmark();
+      let bookmarks: Bookmark[];
+      if (scope === 'global') {
+        bookmarks = this.bookmarkManager.getBookmarksInTreeOrder();
+      } else if (!current) {
+        vscode.window.showInformationMessage('请先将光标移到书签所在行，或跳转到一个书签');
+        return undefined;
+      } else if (current.groupId) {
+        bookmarks = this.bookmarkManager.getBookmarksInTreeOrder(current.groupId);
+      } else {
+        // 未分组的书签在其所在的文件夹、范围内的未分组书签之间切换
+        bookmarks = this.bookmarkManager.getBookmarksGrouped(scopeOf(current), folderOf(current)).ungrouped;
+      }
+      target = stepInList(bookmarks, current?.id, direction);
+      if (!target) {
+        vscode.window.showInformationMessage('还没有书签');
+        return undefined;
+      }
+    }
+
+    this.recordVisit(target.id);
+    this.bookmarkManager.jumpToBookmark(target.id);
+    return target;
+  }
+
+  // 当前书签：光标所在行的书签（同一行有多个时优先最近一次跳转到的），否则为最近一次跳转到的书签
+  private getCurrentBookmark (): Bookmark | undefined {
+    const editor = vscode.window.activeTextEditor;
+    if (editor) {
+      const atCursor = this.bookmarkManager.getBookmarksForFile(editor.document.uri.fsPath)
+        .filter(b => b.line === editor.selection.active.line);
+      if (atCursor.length > 0) {
+        return atCursor.find(b => b.id === this.currentId) ?? atCursor[0];
+      }
+    }
+    return this.bookmarkManager.getAllBookmarks().find(b => b.id === this.currentId);
+  }
+
+  private createItem (bookmark: Bookmark): BookmarkPickItem {
+    const groupPath = bookmark.groupId ? this.bookmarkManager.getGroupPath(bookmark.groupId) : '';
+    const fileName = path.basename(bookmark.file);
+    const lineText = this.getLineText(bookmark).trim();
+    const notes = bookmark.description ? notesText(bookmark.description) : '';
+    const tags = (bookmark.tags ?? []).map(tag => `#${tag}`).join(' ');
+    const section = [
+      scopeOf(bookmark) === 'team' ? '团队' : '',
+      this.bookmarkManager.isMultiRoot() ? bookmark.workspaceFolder ?? '' : ''
+    ].filter(s => s).join(' · ');
+    return {
+      label: `$(${bookmark.orphaned || this.bookmarkManager.getProblem(bookmark.id) ? 'warning' : 'bookmark'}) ${bookmark.label}`,
+      description: [section, groupPath, tags, notes.length > 60 ? `${notes.slice(0, 60)}…` : notes].filter(s => s).join(' — '),
+      detail: `${bookmark.file}:${lineSpanOf(bookmark)}${lineText ? `  ${lineText}` : ''}`,
+      alwaysShow: true,
+      bookmark,
+      fields: [bookmark.label, groupPath, fileName, bookmark.file, lineText],
+      texts: [notes]
+    };
+  }
+
+  // 已打开的文件使用当前内容，否则使用内容锚点中记录的书签行
+  private getLineText (bookmark: Bookmark): string {
+    const file = this.bookmarkManager.resolveBookmarkFile(bookmark);
+    const document = vscode.workspace.textDocuments.find(d => d.uri.fsPath === file);
+    if (document && bookmark.line < document.lineCount) {
+      return document.lineAt(bookmark.line).text;
+    }
+    return bookmark.anchor?.text ?? '';
+  }
+
+  private async preview (bookmark: Bookmark): Promise<void> {
+    try {
+      const document = await vscode.workspace.openTextDocument(this.bookmarkManager.resolveBookmarkFile(bookmark));
+      const position = new vscode.Position(Math.min(bookmark.line, document.lineCount - 1), bookmark.column);
+      const editor = await vscode.window.showTextDocument(document, {
+        preview: true,
+        preserveFocus: true,
+        selection: new vscode.Range(position, position)
+      });
+      editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+    } catch {
+      // 文件不存在时不预览
+    }
+  }
+}
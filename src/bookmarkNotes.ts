@@ -0,0 +1,47 @@
+/**
+ * 书签笔记：保存在 Bookmark.description 中的 Markdown 文本，可以包含代码块，
+ * 以及形如 [文字](bookmark:<书签 id>) 的指向其它书签的链接。
+ * 这里只处理文本，便于在悬浮提示、导出与搜索中复用并单独测试。
+ */
+
+// 指向其它书签的链接：[文字](bookmark:<id>)
+const BOOKMARK_LINK = /\[((?:\\.|[^\]\\])*)\]\(bookmark:([^)\s]+)\)/g;
+
+/**
+ * 生成指向书签的链接，用于插入到笔记中
+ */
+export function bookmarkLink (bookmark: { id: string, label: string }): string {
+  return `[${bookmark.label.replace(/([\\[\]])/g, '\\$1')}](bookmark:${bookmark.id})`;
+}
+
+/**
+ * 将笔记中的书签链接替换为 target 返回的地址；返回 undefined 时（例如书签已删除）只保留链接文字
+ */
+export function resolveBookmarkLinks (notes: string, target: (bookmarkId: string) => string | undefined): string {
+  return notes.replace(BOOKMARK_LINK, (link, text: string, id: string) => {
+    const resolved = target(id);
+    return resolved === undefined ? text : `[${text}](${resolved})`;
+  });
+}
+
+/**
+ * 悬浮提示中显示的笔记：书签链接转换为跳转命令。
+ * 笔记可能来自共享的团队书签，其中原有的命令链接一律失效，只允许跳转到书签
+ */
+export function renderNotes (notes: string, jumpCommand: string): string {
+  return resolveBookmarkLinks(
+    notes.replace(/\]\(\s*<?command:/gi, '](#'),
+    id => `command:${jumpCommand}?${encodeURIComponent(JSON.stringify([id]))}`
+  );
+}
+
+/**
+ * 笔记的纯文本，用于搜索：去掉链接地址与 Markdown 标记符号
+ */
+export function notesText (notes: string): string {
+  return notes
+    .replace(/\]\([^)]*\)/g, ']')
+    .replace(/[`*#>[\]~]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
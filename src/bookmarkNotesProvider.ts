@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+import { Bookmark, BookmarkManager } from './bookmarkManager';
+
+export const NOTES_SCHEME = 'bookmark-note';
+
+/**
+ * 书签笔记的虚拟文件系统：每个书签的笔记是一个 bookmark-note:/<id>/<名称>.md 文件，
+ * 在普通的 Markdown 编辑器中编辑（可打开 Markdown 预览），保存时写回书签
+ */
+export class BookmarkNotesProvider implements vscode.FileSystemProvider {
+  private onDidChangeFileEmitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+  public readonly onDidChangeFile = this.onDidChangeFileEmitter.event;
+  private modified = new Map<string, number>();   // 笔记最后一次保存的时间
+
+  constructor (private bookmarkManager: BookmarkManager) {}
+
+  /**
+   * 书签笔记的地址，路径中带上书签名称作为编辑器标签页的标题
+   */
+  public static uriFor (bookmark: Bookmark): vscode.Uri {
+    const name = bookmark.label.replace(/[\\/:*?"<>|]/g, '_') || 'notes';
+    return vscode.Uri.from({ scheme: NOTES_SCHEME, path: `/${bookmark.id}/${name}.md` });
+  }
+
+  /**
+   * 笔记编辑器所属书签的 id
+   */
+  public static bookmarkIdOf (uri: vscode.Uri): string | undefined {
+    return uri.scheme === NOTES_SCHEME ? uri.path.split('/')[1] : undefined;
+  }
+
+  public watch (): vscode.Disposable {
+    return new vscode.Disposable(() => {});
+  }
+
+  public stat (uri: vscode.Uri): vscode.FileStat {
+    const bookmark = this.bookmarkOf(uri);
+    const created = new Date(bookmark.created).getTime();
+    return {
+      type: vscode.FileType.File,
+      ctime: created,
+      mtime: this.modified.get(bookmark.id) ?? created,
+      size: Buffer.byteLength(bookmark.description ?? '')
+    };
+  }
+
+  public readFile (uri: vscode.Uri): Uint8Array {
+    return Buffer.from(this.bookmarkOf(uri).description ?? '', 'utf8');
+  }
+
+  public async writeFile (uri: vscode.Uri, content: Uint8Array): Promise<void> {
+    const bookmark = this.bookmarkOf(uri);
+    await this.bookmarkManager.setBookmarkNotes(bookmark.id, Buffer.from(content).toString('utf8'));
+    this.modified.set(bookmark.id, Date.now());
+    this.onDidChangeFileEmitter.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+  }
+
+  public readDirectory (): [string, vscode.FileType][] {
+    return [];
+  }
+
+  public createDirectory (uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  public delete (uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  public rename (uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  private bookmarkOf (uri: vscode.Uri): Bookmark {
+    const id = BookmarkNotesProvider.bookmarkIdOf(uri);
+    const bookmark = this.bookmarkManager.getAllBookmarks().find(b => b.id === id);
+    if (!bookmark) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    return bookmark;
+  }
+}
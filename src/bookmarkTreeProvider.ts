@@ -1,20 +1,90 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { Bookmark, BookmarkGroup, BookmarkManager } from './bookmarkManager';
+import { Bookmark, BookmarkGroup, BookmarkManager, BookmarkScope, folderOf, lineSpanOf, scopeOf } from './bookmarkManager';
+import { renderNotes } from './bookmarkNotes';
+import { collectTags, hasAllTags } from './tags';
+import { BookmarkProblem, describeProblem } from './validation';
+
+/**
+ * 同时选中的多个分组中只保留最外层的分组：父分组与子分组同时选中时只移动父分组，子分组保持原有层级
+ */
+export function outermostGroupIds(groupIds: string[], groups: BookmarkGroup[]): string[] {
+    const selected = new Set(groupIds);
+    const hasSelectedAncestor = (groupId: string): boolean => {
+        let parentId = groups.find(g => g.id === groupId)?.parentId;
+        while (parentId) {
+            if (selected.has(parentId)) {
+                return true;
+            }
+            parentId = groups.find(g => g.id === parentId)?.parentId;
+        }
+        return false;
+    };
+    return Array.from(selected).filter(groupId => !hasSelectedAncestor(groupId));
+}
+
+// vscode.SymbolKind 对应的图标，例如 SymbolKind.EnumMember 对应 symbol-enum-member
+function symbolIconId(kind: number): string {
+    const name = vscode.SymbolKind[kind];
+    return name ? `symbol-${name.replace(/([a-z])([A-Z])/g, '$1-$2').toLowerCase()}` : 'symbol-misc';
+}
 
 export class BookmarkItem extends vscode.TreeItem {
     constructor(
         public readonly bookmark: Bookmark,
-        public readonly collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState.None
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState.None,
+        public readonly tagItem?: TagItem,    // 按标签显示时所在的标签节点
+        public readonly problem?: BookmarkProblem   // 文件不存在或行号超出文件末尾
     ) {
         super(bookmark.label, collapsibleState);
         
-        this.tooltip = `${bookmark.file}:${bookmark.line + 1}:${bookmark.column + 1}`;
-        this.description = `${path.basename(bookmark.file)}:${bookmark.line + 1}`;
+        const folderPrefix = bookmark.workspaceFolder ? `${bookmark.workspaceFolder}: ` : '';
+        // 范围书签显示起止位置
+        const span = bookmark.endLine !== undefined ? ` - ${bookmark.endLine + 1}:${(bookmark.endColumn ?? 0) + 1}` : '';
+        this.tooltip = `${folderPrefix}${bookmark.file}:${bookmark.line + 1}:${bookmark.column + 1}${span}`;
+        this.description = `${path.basename(bookmark.file)}:${lineSpanOf(bookmark)}`;
         this.contextValue = 'bookmark';
-        
-        // 设置图标，根据优先级显示不同颜色
-        if (bookmark.priority && bookmark.priority < 0) {
+
+        // 符号书签显示所在符号的路径
+        if (bookmark.symbol) {
+            const symbolPath = bookmark.symbol.path.join('.');
+            this.tooltip += `\n符号: ${symbolPath}`;
+            this.description = `${symbolPath} · ${this.description}`;
+        }
+
+        if (bookmark.tags && bookmark.tags.length > 0) {
+            this.tooltip += `\n标签: ${bookmark.tags.map(tag => `#${tag}`).join(' ')}`;
+        }
+
+        if (bookmark.branch && bookmark.scope !== 'team') {
+            this.tooltip += `\n分支: ${bookmark.branch}`;
+        }
+
+        // 文件或行号无效、以及无法通过内容锚点定位的书签标记为已失效
+        if (problem) {
+            this.tooltip += `\n⚠ ${describeProblem(problem)}，可使用“清理失效书签…”重新定位或删除`;
+            this.description += problem === 'missingFile' ? ' (文件不存在)' : ' (行号无效)';
+        } else if (bookmark.orphaned) {
+            this.tooltip += '\n⚠ 文件内容已变化，无法定位书签原来所在的代码';
+            this.description += ' (已失效)';
+        }
+
+        // 有笔记时以 Markdown 显示笔记，其中的书签链接可以点击跳转
+        if (bookmark.description) {
+            const tooltip = new vscode.MarkdownString();
+            tooltip.isTrusted = { enabledCommands: ['vscode-bookmark-plugin.jumpToBookmark'] };
+            tooltip.appendText(this.tooltip as string);
+            tooltip.appendMarkdown('\n\n---\n\n' + renderNotes(bookmark.description, 'vscode-bookmark-plugin.jumpToBookmark'));
+            this.tooltip = tooltip;
+        }
+
+        // 设置图标，根据优先级显示不同颜色；符号书签使用符号类型的图标
+        if (problem || bookmark.orphaned) {
+            this.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+        } else if (bookmark.symbol) {
+            const color = bookmark.priority && bookmark.priority < 0 ? 'charts.red' : bookmark.priority && bookmark.priority > 0 ? 'charts.blue' : undefined;
+            this.iconPath = new vscode.ThemeIcon(symbolIconId(bookmark.symbol.kind), color ? new vscode.ThemeColor(color) : undefined);
+        } else if (bookmark.priority && bookmark.priority < 0) {
             this.iconPath = new vscode.ThemeIcon('star-full', new vscode.ThemeColor('charts.red'));
         } else if (bookmark.priority && bookmark.priority > 0) {
             this.iconPath = new vscode.ThemeIcon('bookmark', new vscode.ThemeColor('charts.blue'));
@@ -52,9 +122,74 @@ export class GroupItem extends vscode.TreeItem {
     }
 }
 
-export class BookmarkTreeProvider implements vscode.TreeDataProvider<BookmarkItem | GroupItem>, vscode.TreeDragAndDropController<BookmarkItem | GroupItem> {
-    private _onDidChangeTreeData: vscode.EventEmitter<BookmarkItem | GroupItem | undefined | null | void> = new vscode.EventEmitter<BookmarkItem | GroupItem | undefined | null | void>();
-    readonly onDidChangeTreeData: vscode.Event<BookmarkItem | GroupItem | undefined | null | void> = this._onDidChangeTreeData.event;
+/**
+ * 范围节点：启用团队书签后，根级别分为“个人书签”与“团队书签”两个节点
+ */
+export class ScopeItem extends vscode.TreeItem {
+    constructor(
+        public readonly scope: BookmarkScope,
+        public readonly bookmarkCount: number,
+        public readonly folder?: string
+    ) {
+        super(scope === 'team' ? '团队书签' : '个人书签', vscode.TreeItemCollapsibleState.Expanded);
+
+        if (scope === 'team') {
+            this.tooltip = '团队书签：保存在工作区的 .vscode/team-bookmarks.json 中，可随仓库提交与团队共享';
+            this.description = `${bookmarkCount} 个书签 · .vscode/team-bookmarks.json`;
+            this.iconPath = new vscode.ThemeIcon('organization', new vscode.ThemeColor('charts.green'));
+        } else {
+            this.tooltip = '个人书签：仅保存在本机';
+            this.description = `${bookmarkCount} 个书签`;
+            this.iconPath = new vscode.ThemeIcon('person');
+        }
+        this.contextValue = 'bookmarkScope';
+    }
+}
+
+/**
+ * 工作区文件夹节点：多根工作区中，根级别按文件夹分节显示各自的书签
+ */
+export class FolderItem extends vscode.TreeItem {
+    constructor(
+        public readonly folder: string,
+        public readonly bookmarkCount: number
+    ) {
+        super(folder, vscode.TreeItemCollapsibleState.Expanded);
+
+        this.tooltip = `工作区文件夹: ${folder} (${bookmarkCount} 个书签)`;
+        this.description = `${bookmarkCount} 个书签`;
+        this.iconPath = new vscode.ThemeIcon('root-folder');
+        this.contextValue = 'bookmarkFolder';
+    }
+}
+
+/**
+ * 标签节点：按标签显示时根级别为各个标签，tag 为 undefined 时为“无标签”节点
+ */
+export class TagItem extends vscode.TreeItem {
+    constructor(
+        public readonly tag: string | undefined,
+        public readonly bookmarkCount: number
+    ) {
+        super(tag === undefined ? '无标签' : `#${tag}`, vscode.TreeItemCollapsibleState.Expanded);
+
+        this.tooltip = tag === undefined ? `没有标签的书签 (${bookmarkCount} 个)` : `标签: ${tag} (${bookmarkCount} 个书签)`;
+        this.description = `${bookmarkCount} 个书签`;
+        this.iconPath = new vscode.ThemeIcon(tag === undefined ? 'circle-slash' : 'tag');
+        this.contextValue = tag === undefined ? 'bookmarkUntagged' : 'bookmarkTag';
+    }
+}
+
+export type BookmarkTreeNode = BookmarkItem | GroupItem | ScopeItem | FolderItem | TagItem;
+
+/**
+ * 树视图的显示方式：按分组层级，或按标签（同一书签出现在它的每个标签下）
+ */
+export type TreeMode = 'groups' | 'tags';
+
+export class BookmarkTreeProvider implements vscode.TreeDataProvider<BookmarkTreeNode>, vscode.TreeDragAndDropController<BookmarkTreeNode> {
+    private _onDidChangeTreeData: vscode.EventEmitter<BookmarkTreeNode | undefined | null | void> = new vscode.EventEmitter<BookmarkTreeNode | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<BookmarkTreeNode | undefined | null | void> = this._onDidChangeTreeData.event;
 
     // 拖拽支持：支持书签与分组两种 mime
     readonly dropMimeTypes = ['application/vnd.code.tree.bookmarkExplorer', 'application/vnd.code.tree.bookmarkExplorer.groups'];
@@ -67,56 +202,126 @@ export class BookmarkTreeProvider implements vscode.TreeDataProvider<BookmarkIte
         });
     }
 
+    // 本次刷新后返回过的节点：reveal 要求传入与 getChildren 返回的相同对象，刷新时清空
+    private items = new Map<string, BookmarkTreeNode>();
+    private mode: TreeMode = 'groups';
+    private tagFilter: string[] = [];   // 只显示带有全部这些标签的书签
+
+    getMode(): TreeMode {
+        return this.mode;
+    }
+
+    setMode(mode: TreeMode): void {
+        this.mode = mode;
+        this.refresh();
+    }
+
+    getTagFilter(): string[] {
+        return this.tagFilter;
+    }
+
+    setTagFilter(tags: string[]): void {
+        this.tagFilter = tags;
+        this.refresh();
+    }
+
     refresh(): void {
+        this.items.clear();
         this._onDidChangeTreeData.fire();
     }
 
-    getTreeItem(element: BookmarkItem | GroupItem): vscode.TreeItem {
+    private cached<T extends BookmarkTreeNode>(key: string, create: () => T): T {
+        let item = this.items.get(key) as T | undefined;
+        if (!item) {
+            item = create();
+            this.items.set(key, item);
+        }
+        return item;
+    }
+
+    // 书签在树中的节点，可用于 TreeView.reveal；按标签显示时为第一个标签下的节点
+    getBookmarkItem(bookmark: Bookmark): BookmarkItem {
+        if (this.mode === 'tags') {
+            return this.getTaggedBookmarkItem(bookmark, bookmark.tags?.[0]);
+        }
+        return this.cached(`bookmark:${bookmark.id}`, () =>
+            new BookmarkItem(bookmark, vscode.TreeItemCollapsibleState.None, undefined, this.bookmarkManager.getProblem(bookmark.id)));
+    }
+
+    private getTaggedBookmarkItem(bookmark: Bookmark, tag: string | undefined): BookmarkItem {
+        const tagItem = this.getTagItem(tag);
+        return this.cached(`tag:${tag ?? ''}:bookmark:${bookmark.id}`, () =>
+            new BookmarkItem(bookmark, vscode.TreeItemCollapsibleState.None, tagItem, this.bookmarkManager.getProblem(bookmark.id)));
+    }
+
+    private getTagItem(tag: string | undefined): TagItem {
+        const count = this.getVisibleBookmarks().filter(b => tag === undefined ? !b.tags?.length : b.tags?.includes(tag)).length;
+        return this.cached(`tag:${tag ?? ''}`, () => new TagItem(tag, count));
+    }
+
+    // 标签筛选后可见的书签
+    private getVisibleBookmarks(): Bookmark[] {
+        return this.bookmarkManager.getAllBookmarks().filter(b => hasAllTags(b.tags, this.tagFilter));
+    }
+
+    // 分组层级中的书签，按标签筛选：只保留匹配的书签，以及含有匹配书签的分组
+    private getGrouped(scope?: BookmarkScope, folder?: string): ReturnType<BookmarkManager['getBookmarksGrouped']> {
+        const data = this.bookmarkManager.getBookmarksGrouped(scope, folder);
+        if (this.tagFilter.length === 0) {
+            return data;
+        }
+        const visible = (bookmarks: Bookmark[]) => bookmarks.filter(b => hasAllTags(b.tags, this.tagFilter));
+        const filtered = {
+            ...data,
+            ungrouped: visible(data.ungrouped),
+            groupedBookmarks: new Map(Array.from(data.groupedBookmarks, ([id, bookmarks]) => [id, visible(bookmarks)] as [string, Bookmark[]]))
+        };
+        const nonEmpty = (group: BookmarkGroup) => this.getGroupTotalBookmarkCount(group.id, filtered) > 0;
+        return {
+            ...filtered,
+            rootGroups: filtered.rootGroups.filter(nonEmpty),
+            groupedSubGroups: new Map(Array.from(filtered.groupedSubGroups, ([id, groups]) => [id, groups.filter(nonEmpty)] as [string, BookmarkGroup[]]))
+        };
+    }
+
+    private getGroupItem(group: BookmarkGroup, bookmarkCount: number): GroupItem {
+        return this.cached(`group:${group.id}`, () => new GroupItem(group, bookmarkCount, vscode.TreeItemCollapsibleState.Expanded));
+    }
+
+    getTreeItem(element: BookmarkTreeNode): vscode.TreeItem {
         return element;
     }
 
-    getChildren(element?: BookmarkItem | GroupItem): Thenable<(BookmarkItem | GroupItem)[]> {
+    getChildren(element?: BookmarkTreeNode): Thenable<BookmarkTreeNode[]> {
+        if (this.mode === 'tags') {
+            return Promise.resolve(this.getTagChildren(element));
+        }
         if (!element) {
-            // 返回根级别的项目：未分组的书签 + 根级别分组
-            const data = this.bookmarkManager.getBookmarksGrouped();
-            const result: (BookmarkItem | GroupItem)[] = [];
-            
-            // 先添加根级别分组（按 priority 排序），再添加未分组的书签
-            data.rootGroups.forEach(group => {
-                const bookmarkCount = this.getGroupTotalBookmarkCount(group.id, data);
-                result.push(new GroupItem(
-                    group,
-                    bookmarkCount,
-                    vscode.TreeItemCollapsibleState.Expanded
-                ));
-            });
-
-            // 添加未分组的书签（按 priority 排序）
-            data.ungrouped.forEach(bookmark => {
-                result.push(new BookmarkItem(bookmark));
-            });
-            
-            return Promise.resolve(result);
+            // 多根工作区中，根级别显示各工作区文件夹节点
+            if (this.bookmarkManager.isMultiRoot()) {
+                return Promise.resolve(this.bookmarkManager.getLoadedFolders().map(folder => this.createFolderItem(folder)));
+            }
+            return Promise.resolve(this.getSectionItems());
+        } else if (element instanceof FolderItem) {
+            return Promise.resolve(this.getSectionItems(element.folder));
+        } else if (element instanceof ScopeItem) {
+            return Promise.resolve(this.getRootItems(element.scope, element.folder));
         } else if (element instanceof GroupItem) {
             // 返回分组下的书签和子分组
-            const data = this.bookmarkManager.getBookmarksGrouped();
-            const result: (BookmarkItem | GroupItem)[] = [];
+            const data = this.getGrouped();
+            const result: BookmarkTreeNode[] = [];
             
             // 添加子分组
             const subGroups = data.groupedSubGroups.get(element.group.id) || [];
             subGroups.forEach(subGroup => {
                 const bookmarkCount = this.getGroupTotalBookmarkCount(subGroup.id, data);
-                result.push(new GroupItem(
-                    subGroup,
-                    bookmarkCount,
-                    vscode.TreeItemCollapsibleState.Expanded
-                ));
+                result.push(this.getGroupItem(subGroup, bookmarkCount));
             });
             
             // 添加直接的书签
             const bookmarks = data.groupedBookmarks.get(element.group.id) || [];
             bookmarks.forEach(bookmark => {
-                result.push(new BookmarkItem(bookmark));
+                result.push(this.getBookmarkItem(bookmark));
             });
             
             return Promise.resolve(result);
@@ -125,6 +330,64 @@ export class BookmarkTreeProvider implements vscode.TreeDataProvider<BookmarkIte
         return Promise.resolve([]);
     }
 
+    // 按标签显示：根级别为各个标签与“无标签”节点，标签下的书签按侧边栏中的分组顺序排列
+    private getTagChildren(element?: BookmarkTreeNode): BookmarkTreeNode[] {
+        if (!element) {
+            const bookmarks = this.getVisibleBookmarks();
+            const items: BookmarkTreeNode[] = collectTags(bookmarks).map(({ tag }) => this.getTagItem(tag));
+            if (bookmarks.some(b => !b.tags?.length)) {
+                items.push(this.getTagItem(undefined));
+            }
+            return items;
+        }
+        if (element instanceof TagItem) {
+            return this.bookmarkManager.getBookmarksInTreeOrder()
+                .filter(b => hasAllTags(b.tags, this.tagFilter))
+                .filter(b => element.tag === undefined ? !b.tags?.length : b.tags?.includes(element.tag))
+                .map(b => this.getTaggedBookmarkItem(b, element.tag));
+        }
+        return [];
+    }
+
+    // 一个工作区文件夹（单文件夹时为整个视图）的内容：启用团队书签时显示个人/团队两个范围节点
+    private getSectionItems(folder?: string): BookmarkTreeNode[] {
+        if (this.bookmarkManager.hasTeamScope(folder)) {
+            return [this.createScopeItem('personal', folder), this.createScopeItem('team', folder)];
+        }
+        return this.getRootItems(undefined, folder);
+    }
+
+    private createFolderItem(folder: string): FolderItem {
+        const count = this.bookmarkManager.getAllBookmarks().filter(b => folderOf(b) === folder).length;
+        return this.cached(`folder:${folder}`, () => new FolderItem(folder, count));
+    }
+
+    private createScopeItem(scope: BookmarkScope, folder?: string): ScopeItem {
+        const count = this.bookmarkManager.getAllBookmarks()
+            .filter(b => scopeOf(b) === scope && (folder === undefined || folderOf(b) === folder))
+            .length;
+        return this.cached(`scope:${folder ?? ''}:${scope}`, () => new ScopeItem(scope, count, folder));
+    }
+
+    // 返回根级别（或某个文件夹、范围根级别）的项目：根级别分组 + 未分组的书签
+    private getRootItems(scope?: BookmarkScope, folder?: string): BookmarkTreeNode[] {
+        const data = this.getGrouped(scope, folder);
+        const result: BookmarkTreeNode[] = [];
+
+        // 先添加根级别分组（按 priority 排序），再添加未分组的书签
+        data.rootGroups.forEach(group => {
+            const bookmarkCount = this.getGroupTotalBookmarkCount(group.id, data);
+            result.push(this.getGroupItem(group, bookmarkCount));
+        });
+
+        // 添加未分组的书签（按 priority 排序）
+        data.ungrouped.forEach(bookmark => {
+            result.push(this.getBookmarkItem(bookmark));
+        });
+
+        return result;
+    }
+
     // 计算分组的总书签数（包括子分组中的书签）
     private getGroupTotalBookmarkCount(groupId: string, data: ReturnType<typeof this.bookmarkManager.getBookmarksGrouped>): number {
         let count = 0;
@@ -142,56 +405,95 @@ export class BookmarkTreeProvider implements vscode.TreeDataProvider<BookmarkIte
         return count;
     }
 
-    getParent(element: BookmarkItem | GroupItem): vscode.ProviderResult<GroupItem> {
+    getParent(element: BookmarkTreeNode): vscode.ProviderResult<GroupItem | ScopeItem | FolderItem | TagItem> {
+        if (element instanceof TagItem) {
+            return null;
+        }
+        if (element instanceof BookmarkItem && element.tagItem) {
+            return element.tagItem;
+        }
         if (element instanceof BookmarkItem && element.bookmark.groupId) {
             // 如果书签属于某个分组，返回该分组
             const groups = this.bookmarkManager.getAllGroups();
             const group = groups.find(g => g.id === element.bookmark.groupId);
             if (group) {
-                const data = this.bookmarkManager.getBookmarksGrouped();
+                const data = this.getGrouped();
                 const bookmarkCount = this.getGroupTotalBookmarkCount(group.id, data);
-                return new GroupItem(group, bookmarkCount);
+                return this.getGroupItem(group, bookmarkCount);
             }
         } else if (element instanceof GroupItem && element.group.parentId) {
             // 如果分组有父分组，返回父分组
             const groups = this.bookmarkManager.getAllGroups();
             const parentGroup = groups.find(g => g.id === element.group.parentId);
             if (parentGroup) {
-                const data = this.bookmarkManager.getBookmarksGrouped();
+                const data = this.getGrouped();
                 const bookmarkCount = this.getGroupTotalBookmarkCount(parentGroup.id, data);
-                return new GroupItem(parentGroup, bookmarkCount);
+                return this.getGroupItem(parentGroup, bookmarkCount);
             }
         }
-        return null;
+
+        if (element instanceof FolderItem) {
+            return null;
+        }
+        const multiRoot = this.bookmarkManager.isMultiRoot();
+        if (element instanceof ScopeItem) {
+            return multiRoot && element.folder !== undefined ? this.createFolderItem(element.folder) : null;
+        }
+
+        // 根级别的分组与书签：启用团队书签时父节点为范围节点，多根工作区中为文件夹节点
+        const item = element instanceof BookmarkItem ? element.bookmark : element.group;
+        const folder = multiRoot ? folderOf(item) : undefined;
+        if (this.bookmarkManager.hasTeamScope(folder)) {
+            return this.createScopeItem(scopeOf(item), folder);
+        }
+        return multiRoot ? this.createFolderItem(folderOf(item)) : null;
     }
 
     // 拖拽开始 - 处理被拖拽的项目
-    async handleDrag(source: (BookmarkItem | GroupItem)[], treeDataTransfer: vscode.DataTransfer, token: vscode.CancellationToken): Promise<void> {
-        // 支持拖拽书签与分组
+    async handleDrag(source: BookmarkTreeNode[], treeDataTransfer: vscode.DataTransfer, token: vscode.CancellationToken): Promise<void> {
+        // 支持同时拖拽多个书签与分组；按标签显示时同一书签可能被选中多次
         const bookmarkItems = source.filter(item => item instanceof BookmarkItem) as BookmarkItem[];
         if (bookmarkItems.length > 0) {
-            const bookmarkIds = bookmarkItems.map(item => item.bookmark.id);
+            const bookmarkIds = Array.from(new Set(bookmarkItems.map(item => item.bookmark.id)));
             treeDataTransfer.set('application/vnd.code.tree.bookmarkExplorer', new vscode.DataTransferItem(bookmarkIds));
         }
 
         const groupItems = source.filter(item => item instanceof GroupItem) as GroupItem[];
-        if (groupItems.length > 0) {
-            const groupIds = groupItems.map(item => item.group.id);
+        const groupIds = outermostGroupIds(groupItems.map(item => item.group.id), this.bookmarkManager.getAllGroups());
+        if (groupIds.length > 0) {
             treeDataTransfer.set('application/vnd.code.tree.bookmarkExplorer.groups', new vscode.DataTransferItem(groupIds));
         }
     }
 
     // 拖拽放置 - 处理放置目标
-    async handleDrop(target: BookmarkItem | GroupItem | undefined, sources: vscode.DataTransfer, token: vscode.CancellationToken): Promise<void> {
+    async handleDrop(target: BookmarkTreeNode | undefined, sources: vscode.DataTransfer, token: vscode.CancellationToken): Promise<void> {
+        // 按标签显示时，拖放到标签（或该标签下的书签）上为书签添加该标签
+        if (this.mode === 'tags') {
+            const tag = target instanceof TagItem ? target.tag : target instanceof BookmarkItem ? target.tagItem?.tag : undefined;
+            const bookmarkIds = sources.get('application/vnd.code.tree.bookmarkExplorer')?.value as string[] | undefined;
+            if (tag === undefined || !bookmarkIds || bookmarkIds.length === 0) {
+                return;
+            }
+            await this.bookmarkManager.addTags(bookmarkIds, [tag]);
+            vscode.window.showInformationMessage(`✅ 已为 ${bookmarkIds.length} 个书签添加标签 #${tag}`);
+            return;
+        }
+
         // 优先处理分组拖拽（分组排序/移动）
         const groupTransfer = sources.get('application/vnd.code.tree.bookmarkExplorer.groups');
         if (groupTransfer) {
-            const groupIds = groupTransfer.value as string[];
-            if (!groupIds || groupIds.length === 0) { return; }
+            const groups = this.bookmarkManager.getAllGroups();
+            const groupIds = this.filterByDropFolder(target, (groupTransfer.value as string[] ?? [])
+                .map(id => groups.find(g => g.id === id))
+                .filter((g): g is BookmarkGroup => !!g))
+                .map(g => g.id);
+            if (groupIds.length === 0) { return; }
 
             // 目标 parentId 与插入点（在 target 分组之前）
             let targetParentId: string | undefined;
             let insertBeforeGroupId: string | undefined;
+            // 移到根级别时的目标范围（拖到范围节点或该范围下未分组的书签上）
+            const targetScope = this.getRootDropScope(target);
 
             if (target instanceof GroupItem) {
                 // 将被拖拽分组插入到目标分组的同级，并放在目标之前
@@ -207,9 +509,14 @@ export class BookmarkTreeProvider implements vscode.TreeDataProvider<BookmarkIte
                 insertBeforeGroupId = undefined;
             }
 
-            for (const gid of groupIds) {
-                await this.bookmarkManager.moveGroupToParent(gid, targetParentId, insertBeforeGroupId);
-            }
+            await this.bookmarkManager.batch(`移动 ${groupIds.length} 个分组`, async () => {
+                for (const gid of groupIds) {
+                    if (targetScope && !targetParentId) {
+                        await this.bookmarkManager.setGroupScope(gid, targetScope);
+                    }
+                    await this.bookmarkManager.moveGroupToParent(gid, targetParentId, insertBeforeGroupId);
+                }
+            });
 
             vscode.window.showInformationMessage(`✅ 已移动 ${groupIds.length} 个分组`);
             return;
@@ -221,8 +528,12 @@ export class BookmarkTreeProvider implements vscode.TreeDataProvider<BookmarkIte
             return;
         }
 
-        const bookmarkIds = transferItem.value as string[];
-        if (!bookmarkIds || bookmarkIds.length === 0) {
+        const bookmarks = this.bookmarkManager.getAllBookmarks();
+        const bookmarkIds = this.filterByDropFolder(target, (transferItem.value as string[] ?? [])
+            .map(id => bookmarks.find(b => b.id === id))
+            .filter((b): b is Bookmark => !!b))
+            .map(b => b.id);
+        if (bookmarkIds.length === 0) {
             return;
         }
 
@@ -240,15 +551,16 @@ export class BookmarkTreeProvider implements vscode.TreeDataProvider<BookmarkIte
             const groupPath = this.bookmarkManager.getGroupPath(targetGroupId);
             targetName = `分组 "${groupPath}"`;
         } else {
-            // 拖拽到空白区域或无分组的书签 - 移动到根级别
+            // 拖拽到空白区域、范围节点或无分组的书签 - 移动到根级别
             targetGroupId = undefined;
-            targetName = '根级别';
+            targetName = target instanceof ScopeItem || target instanceof FolderItem ? `${target.label} 根级别` : '根级别';
         }
+        const targetScope = targetGroupId ? undefined : this.getRootDropScope(target);
 
         // 检查是否有书签需要移动（避免无意义的移动）
         const bookmarksToMove = bookmarkIds.filter(id => {
             const bookmark = this.bookmarkManager.getAllBookmarks().find(b => b.id === id);
-            return bookmark && bookmark.groupId !== targetGroupId;
+            return bookmark && (bookmark.groupId !== targetGroupId || (targetScope && scopeOf(bookmark) !== targetScope));
         });
 
         if (bookmarksToMove.length === 0) {
@@ -256,14 +568,48 @@ export class BookmarkTreeProvider implements vscode.TreeDataProvider<BookmarkIte
             return;
         }
 
-        // 批量移动书签
-        for (const bookmarkId of bookmarksToMove) {
-            await this.bookmarkManager.moveBookmarkToGroup(bookmarkId, targetGroupId);
+        // 批量移动书签（一次保存，撤销时作为一步）
+        const bookmarkCount = await this.bookmarkManager.moveBookmarksToGroup(bookmarksToMove, targetGroupId, targetScope);
+        if (bookmarkCount === 0) {
+            return;
         }
 
         // 显示移动结果消息
-        const bookmarkCount = bookmarksToMove.length;
         const bookmarkText = bookmarkCount === 1 ? '个书签' : '个书签';
         vscode.window.showInformationMessage(`✅ 已移动 ${bookmarkCount} ${bookmarkText}到 ${targetName}`);
     }
+
+    // 拖放到根级别时的目标范围：范围节点本身，或该范围下未分组的书签
+    private getRootDropScope(target: BookmarkTreeNode | undefined): BookmarkScope | undefined {
+        if (target instanceof ScopeItem) {
+            return target.scope;
+        }
+        if (target instanceof BookmarkItem && !target.bookmark.groupId && this.bookmarkManager.hasTeamScope(folderOf(target.bookmark))) {
+            return scopeOf(target.bookmark);
+        }
+        return undefined;
+    }
+
+    // 书签与分组保存在所属工作区文件夹的存储中，不能拖放到其它文件夹
+    private filterByDropFolder<T extends Bookmark | BookmarkGroup>(target: BookmarkTreeNode | undefined, items: T[]): T[] {
+        let targetFolder: string | undefined;
+        if (target instanceof FolderItem) {
+            targetFolder = target.folder;
+        } else if (target instanceof ScopeItem) {
+            targetFolder = target.folder;
+        } else if (target instanceof BookmarkItem) {
+            targetFolder = folderOf(target.bookmark);
+        } else if (target instanceof GroupItem) {
+            targetFolder = folderOf(target.group);
+        }
+        if (targetFolder === undefined) {
+            return items;
+        }
+
+        const allowed = items.filter(item => folderOf(item) === targetFolder);
+        if (allowed.length < items.length) {
+            vscode.window.showWarningMessage(`${items.length - allowed.length} 个项目属于其它工作区文件夹，无法移动到这里`);
+        }
+        return allowed;
+    }
 }
@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+
+export interface DatabaseCredentials {
+  username?: string
+  password?: string
+}
+
+/**
+ * 远程书签服务的凭据，保存在 VS Code 的 SecretStorage（系统钥匙串）中，按服务地址区分。
+ * 设置项中的明文用户名仍可作为后备；明文密码只有在用户确认迁移到 SecretStorage 后才会被使用。
+ */
+export class CredentialStore {
+  private cached: Promise<DatabaseCredentials> | undefined;
+
+  constructor (
+    private context: vscode.ExtensionContext,
+    private dbUrl: string,
+    private fallback: DatabaseCredentials = {}
+  ) {
+    // 其它窗口或命令修改了凭据时，下次请求重新读取
+    context.subscriptions.push(context.secrets.onDidChange(e => {
+      if (e.key === this.secretKey('username') || e.key === this.secretKey('password')) {
+        this.cached = undefined;
+      }
+    }));
+  }
+
+  private secretKey (name: 'username' | 'password'): string {
+    return `bookmarkPlugin.database:${this.dbUrl}:${name}`;
+  }
+
+  public get (): Promise<DatabaseCredentials> {
+    if (!this.cached) {
+      this.cached = this.resolve();
+    }
+    return this.cached;
+  }
+
+  private async resolve (): Promise<DatabaseCredentials> {
+    let username: string | undefined;
+    let password: string | undefined;
+    try {
+      username = (await this.context.secrets.get(this.secretKey('username'))) || this.fallback.username;
+      password = await this.context.secrets.get(this.secretKey('password'));
+    } catch (e) {
+      // 无法读取 SecretStorage（例如 Linux 上没有可用的钥匙串）：不缓存失败的结果，下次请求时重试
+      this.cached = undefined;
+      throw e;
+    }
+
+    if (!password && this.fallback.password) {
+      password = await this.migratePlaintextPassword(this.fallback.password);
+    }
+
+    return { username, password };
+  }
+
+  /**
+   * 设置项中存在明文密码：提示用户迁移到 SecretStorage，拒绝则不使用该密码
+   */
+  private async migratePlaintextPassword (password: string): Promise<string | undefined> {
+    const migrate = '迁移到安全存储';
+    const choice = await vscode.window.showWarningMessage(
+      '设置项 bookmarkPlugin.password 中保存了明文密码，可能会被同步或泄露。是否将其迁移到安全存储并从设置中删除？未迁移前不会使用该密码。',
+      migrate,
+      '忽略'
+    );
+    if (choice !== migrate) {
+      return undefined;
+    }
+
+    await this.context.secrets.store(this.secretKey('password'), password);
+    const config = vscode.workspace.getConfiguration('bookmarkPlugin');
+    const inspected = config.inspect<string>('password');
+    if (inspected?.globalValue !== undefined) {
+      await config.update('password', undefined, vscode.ConfigurationTarget.Global);
+    }
+    if (inspected?.workspaceValue !== undefined) {
+      await config.update('password', undefined, vscode.ConfigurationTarget.Workspace);
+    }
+    this.fallback = { ...this.fallback, password: undefined };
+    vscode.window.showInformationMessage('密码已迁移到安全存储，并已从设置中删除');
+    return password;
+  }
+
+  public async store (credentials: DatabaseCredentials): Promise<void> {
+    if (credentials.username !== undefined) {
+      await this.context.secrets.store(this.secretKey('username'), credentials.username);
+    }
+    if (credentials.password !== undefined) {
+      await this.context.secrets.store(this.secretKey('password'), credentials.password);
+    }
+    this.cached = undefined;
+  }
+
+  public async clear (): Promise<void> {
+    await this.context.secrets.delete(this.secretKey('username'));
+    await this.context.secrets.delete(this.secretKey('password'));
+    this.cached = undefined;
+  }
+}
@@ -0,0 +1,380 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { backupPath } from './storage';
+import type { IStorage, StorageConfig } from './storage';
+import { isVersionedCollection } from './schema';
+import type { CredentialStore } from './credentials';
+
+/**
+ * 远程书签服务中的一条记录。协议说明见 database-protocol.md。
+ * 数组类型的值（书签、分组）按元素的 id 拆分为多条记录，其它值保存为 id 为 VALUE_RECORD_ID 的单条记录。
+ * 带版本号的信封同样按元素拆分，版本号保存为 id 为 SCHEMA_RECORD_ID 的记录。
+ */
+export interface RemoteRecord {
+  id: string
+  updatedAt: number   // 最后修改时间（毫秒时间戳），冲突时以较新的为准
+  deleted?: boolean   // 删除标记（墓碑），保证删除也能按时间参与合并
+  order?: number      // 数组中的位置
+  data?: unknown
+}
+
+interface QueuedWrite {
+  key: string
+  records: RemoteRecord[]
+}
+
+interface CacheFile {
+  records: Record<string, Record<string, RemoteRecord>>
+  queue: QueuedWrite[]
+}
+
+const VALUE_RECORD_ID = '__value__';
+const SCHEMA_RECORD_ID = '__schema__';
+// 启动时等待远程同步的最长时间，超时后先使用本地缓存
+const INITIAL_SYNC_TIMEOUT = 5000;
+const REQUEST_TIMEOUT = 10000;
+// 离线时重试同步的间隔
+const RETRY_INTERVAL = 30000;
+
+/**
+ * 按记录合并本地与远程数据：同一 id 取 updatedAt 较新的一方，相同时以远程为准
+ */
+export function mergeRecords (
+  local: Record<string, RemoteRecord>,
+  remote: RemoteRecord[]
+): Record<string, RemoteRecord> {
+  const merged = { ...local };
+  for (const record of remote) {
+    const existing = merged[record.id];
+    if (!existing || record.updatedAt >= existing.updatedAt) {
+      merged[record.id] = record;
+    }
+  }
+  return merged;
+}
+
+// 远程记录中是否有本地缓存没有的或更新的记录
+function hasNewerRecords (local: Record<string, RemoteRecord>, remote: RemoteRecord[]): boolean {
+  return remote.some(record => !local[record.id] || record.updatedAt > local[record.id].updatedAt);
+}
+
+class HttpError extends Error {
+  constructor (public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * 远程数据库存储：通过 HTTP/JSON 与书签服务通信。
+ * 所有写入先落到本地缓存文件（预写队列）中，再异步推送到服务器；
+ * 服务器不可用时继续使用本地缓存，恢复连接后按顺序重放队列中的写入。
+ */
+export class DatabaseStorage<T> implements IStorage<T> {
+  private baseUrl: string;
+  private cachePath: string;
+  private cache: CacheFile = { records: {}, queue: [] };
+  private ready: Promise<void>;
+  private flushing: Promise<void> | undefined;
+  private retryTimer: NodeJS.Timeout | undefined;
+  private offlineNotified = false;
+  // 启动时的同步已结束（完成或超时）；之后拉取到的远程修改需要通知使用方重新加载
+  private settled = false;
+  // 各 key 最近一次读取或写入时交给使用方的记录 id：保存时只有其中被移除的才标记为删除，
+  // 使用方尚未读取的远程记录（例如启动超时后才拉取到的）不会因为不在写入的数据中而被删除
+  private knownIds = new Map<string, Set<string>>();
+  private onDidChangeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.onDidChangeEmitter.event;
+
+  constructor (
+    private config: StorageConfig,
+    private context: vscode.ExtensionContext,
+    private credentials: CredentialStore
+  ) {
+    if (!config.dbUrl) {
+      throw new Error('Database storage requires bookmarkPlugin.dbUrl to be set.');
+    }
+    this.baseUrl = config.dbUrl.replace(/\/+$/, '');
+
+    const projectName = vscode.workspace.name || 'default';
+    this.cachePath = config.location
+      ? path.resolve(config.location)
+      : path.join(require('os').homedir(), '.vs_bookmark', projectName, 'database-cache.json');
+
+    try {
+      console.log(`[bookmark] DatabaseStorage initialized for ${this.baseUrl}, cache at: ${this.cachePath}`);
+    } catch (e) {
+      // ignore
+    }
+
+    this.loadCache();
+    this.ready = this.initialSync();
+
+    context.subscriptions.push(this.onDidChangeEmitter, {
+      dispose: () => {
+        if (this.retryTimer) {
+          clearInterval(this.retryTimer);
+        }
+      }
+    });
+  }
+
+  private loadCache (): void {
+    const dir = path.dirname(this.cachePath);
+    if (!fs.existsSync(dir)) {
+      try {
+        fs.mkdirSync(dir, { recursive: true });
+      } catch (e) {
+        console.error('Failed to create storage directory:', dir, e);
+        try { vscode.window.showErrorMessage('无法创建书签存储目录: ' + dir); } catch {};
+      }
+    }
+
+    if (fs.existsSync(this.cachePath)) {
+      try {
+        const content = JSON.parse(fs.readFileSync(this.cachePath, 'utf-8'));
+        this.cache = { records: content.records ?? {}, queue: content.queue ?? [] };
+      } catch (e) {
+        console.error('Failed to load database cache file:', e);
+      }
+    }
+  }
+
+  private persistCache (): void {
+    // 先写临时文件再替换，写入中断时不会留下不完整的缓存
+    const tempPath = `${this.cachePath}.tmp`;
+    try {
+      fs.writeFileSync(tempPath, JSON.stringify(this.cache), 'utf-8');
+      fs.renameSync(tempPath, this.cachePath);
+    } catch (e: unknown) {
+      console.error('Failed to write database cache file:', this.cachePath, e);
+      const errMsg = (e instanceof Error) ? e.message : String(e);
+      try { vscode.window.showErrorMessage('保存书签缓存失败: ' + errMsg); } catch {}
+    }
+  }
+
+  private async initialSync (): Promise<void> {
+    const timeout = new Promise<void>(resolve => setTimeout(resolve, INITIAL_SYNC_TIMEOUT));
+    await Promise.race([this.syncWithServer(), timeout]);
+    this.settled = true;
+  }
+
+  /**
+   * 先重放本地队列，再从服务器拉取所有 key 并按记录合并到本地缓存
+   */
+  private async syncWithServer (): Promise<void> {
+    try {
+      await this.flush();
+      const { keys } = await this.request<{ keys: string[] }>('GET', '/keys');
+      let changed = false;
+      for (const key of keys) {
+        if (await this.pull(key)) {
+          changed = true;
+        }
+      }
+      this.persistCache();
+      if (changed && this.settled) {
+        this.onDidChangeEmitter.fire();
+      }
+    } catch (e) {
+      this.handleOffline(e);
+    }
+  }
+
+  /**
+   * 拉取一个 key 的远程记录合并到本地缓存，返回缓存是否发生了变化
+   */
+  private async pull (key: string): Promise<boolean> {
+    try {
+      const { records } = await this.request<{ records: RemoteRecord[] }>('GET', `/keys/${encodeURIComponent(key)}`);
+      const local = this.cache.records[key] ?? {};
+      this.cache.records[key] = mergeRecords(local, records);
+      return hasNewerRecords(local, records);
+    } catch (e) {
+      if (e instanceof HttpError && e.status === 404) {
+        return false;
+      }
+      throw e;
+    }
+  }
+
+  private async request<R> (method: string, urlPath: string, body?: unknown): Promise<R> {
+    const headers: Record<string, string> = { 'Accept': 'application/json' };
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    const { username, password } = await this.credentials.get();
+    if (username) {
+      const encoded = Buffer.from(`${username}:${password ?? ''}`).toString('base64');
+      headers['Authorization'] = `Basic ${encoded}`;
+    }
+
+    const response = await fetch(this.baseUrl + urlPath, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT)
+    });
+    if (!response.ok) {
+      throw new HttpError(response.status, `${method} ${urlPath} failed: ${response.status} ${response.statusText}`);
+    }
+    return (response.status === 204 ? {} : await response.json()) as R;
+  }
+
+  /**
+   * 按顺序推送队列中的写入；任何一条失败都会停止并保留剩余队列，等待下次重试
+   */
+  private flush (): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = (async () => {
+        while (this.cache.queue.length > 0) {
+          const write = this.cache.queue[0];
+          const urlPath = `/keys/${encodeURIComponent(write.key)}`;
+          if (write.records.length === 0) {
+            await this.request('DELETE', urlPath);
+          } else {
+            const { records } = await this.request<{ records: RemoteRecord[] }>('PATCH', urlPath, { records: write.records });
+            const local = this.cache.records[write.key] ?? {};
+            this.cache.records[write.key] = mergeRecords(local, records);
+            // 响应中包含其它客户端的修改
+            if (this.settled && hasNewerRecords(local, records)) {
+              this.onDidChangeEmitter.fire();
+            }
+          }
+          this.cache.queue.shift();
+          this.persistCache();
+        }
+        this.onOnline();
+      })().finally(() => {
+        this.flushing = undefined;
+      });
+    }
+    return this.flushing;
+  }
+
+  private scheduleFlush (): void {
+    this.flush().catch(e => this.handleOffline(e));
+  }
+
+  private handleOffline (error: unknown): void {
+    console.error('[bookmark] Bookmark server unavailable:', error);
+    if (error instanceof HttpError && (error.status === 401 || error.status === 403)) {
+      try { vscode.window.showErrorMessage('书签服务器拒绝访问，请检查用户名和密码'); } catch {}
+    } else if (!this.offlineNotified) {
+      this.offlineNotified = true;
+      try { vscode.window.showWarningMessage('无法连接书签服务器，已切换到离线模式，修改将在恢复连接后同步'); } catch {}
+    }
+    if (!this.retryTimer) {
+      this.retryTimer = setInterval(() => this.syncWithServer(), RETRY_INTERVAL);
+    }
+  }
+
+  private onOnline (): void {
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+    if (this.offlineNotified) {
+      this.offlineNotified = false;
+      try { vscode.window.showInformationMessage('已重新连接书签服务器，离线修改已同步'); } catch {}
+    }
+  }
+
+  private toRecords (value: T): Map<string, Omit<RemoteRecord, 'updatedAt'>> {
+    const records = new Map<string, Omit<RemoteRecord, 'updatedAt'>>();
+    const items: unknown = isVersionedCollection(value) ? value.items : value;
+    if (Array.isArray(items) && items.every(item => item && typeof item.id === 'string')) {
+      items.forEach((item, index) => {
+        records.set(item.id, { id: item.id, order: index, data: item });
+      });
+      if (isVersionedCollection(value)) {
+        records.set(SCHEMA_RECORD_ID, { id: SCHEMA_RECORD_ID, data: value.schemaVersion });
+      }
+    } else {
+      records.set(VALUE_RECORD_ID, { id: VALUE_RECORD_ID, data: value });
+    }
+    return records;
+  }
+
+  async save (key: string, value: T): Promise<void> {
+    await this.ready;
+    const now = Date.now();
+    const existing = this.cache.records[key] ?? {};
+    const next = this.toRecords(value);
+    const known = this.knownIds.get(key) ?? new Set<string>();
+    const changed: RemoteRecord[] = [];
+
+    // 只为内容或位置发生变化的记录更新修改时间
+    next.forEach(record => {
+      const old = existing[record.id];
+      if (!old || old.deleted || old.order !== record.order || JSON.stringify(old.data) !== JSON.stringify(record.data)) {
+        changed.push({ ...record, updatedAt: now });
+      }
+    });
+    Object.values(existing).forEach(record => {
+      if (!record.deleted && known.has(record.id) && !next.has(record.id)) {
+        changed.push({ id: record.id, updatedAt: now, deleted: true });
+      }
+    });
+
+    this.knownIds.set(key, new Set(next.keys()));
+    if (changed.length === 0) {
+      return;
+    }
+
+    const updated = { ...existing };
+    changed.forEach(record => { updated[record.id] = record; });
+    this.cache.records[key] = updated;
+    this.cache.queue.push({ key, records: changed });
+    this.persistCache();
+    this.scheduleFlush();
+  }
+
+  async load (key: string): Promise<T | undefined> {
+    await this.ready;
+    const records = this.cache.records[key];
+    this.knownIds.set(key, new Set(Object.values(records ?? {}).filter(r => !r.deleted).map(r => r.id)));
+    if (!records) {
+      return undefined;
+    }
+    if (records[VALUE_RECORD_ID]) {
+      const record = records[VALUE_RECORD_ID];
+      return record.deleted ? undefined : record.data as T;
+    }
+    const items = Object.values(records)
+      .filter(r => !r.deleted && r.id !== SCHEMA_RECORD_ID)
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+      .map(r => r.data);
+    const schema = records[SCHEMA_RECORD_ID];
+    return (schema && !schema.deleted ? { schemaVersion: schema.data, items } : items) as unknown as T;
+  }
+
+  async delete (key: string): Promise<void> {
+    await this.ready;
+    delete this.cache.records[key];
+    this.knownIds.delete(key);
+    // 空记录列表表示删除整个 key
+    this.cache.queue.push({ key, records: [] });
+    this.persistCache();
+    this.scheduleFlush();
+  }
+
+  async listKeys (): Promise<string[]> {
+    await this.ready;
+    return Object.keys(this.cache.records);
+  }
+
+  /**
+   * 备份本地缓存文件（服务器上的数据由服务端自行备份）
+   */
+  async backup (reason: string): Promise<string | undefined> {
+    await this.ready;
+    if (!fs.existsSync(this.cachePath)) {
+      return undefined;
+    }
+    const target = backupPath(this.cachePath, reason);
+    await fs.promises.copyFile(this.cachePath, target);
+    try { console.log(`[bookmark] Backed up database cache to ${target}`); } catch {}
+    return target;
+  }
+}
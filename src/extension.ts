@@ -1,10 +1,41 @@
 // The module 'vscode' contains the VS Code extensibility API
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
-import { BookmarkManager } from './bookmarkManager';
-import { BookmarkTreeProvider } from './bookmarkTreeProvider';
+import * as path from 'path';
+import { Bookmark, BookmarkGroup, BookmarkManager, BookmarkScope, folderOf, lineSpanOf, scopeOf, TEAM_BOOKMARK_FILE } from './bookmarkManager';
+import { BookmarkItem, BookmarkTreeNode, BookmarkTreeProvider, FolderItem, GroupItem, ScopeItem, TagItem, TreeMode } from './bookmarkTreeProvider';
 import { VisualizationManager } from './visualizationManager';
+import { BookmarkNavigator, NavigationScope } from './bookmarkNavigator';
+import { BookmarkNotesProvider, NOTES_SCHEME } from './bookmarkNotesProvider';
+import { bookmarkLink, renderNotes } from './bookmarkNotes';
+import { normalizeTag, parseTags } from './tags';
+import { describeProblem, rankCandidates } from './validation';
+import { listBranches } from './gitBranch';
 import { StorageFactory, StorageConfig, StorageType } from './storage';
+import { StoredCollection } from './schema';
+import { CredentialStore } from './credentials';
+import { createBundle, filterGrouped, parseBundle, parseCsv, toCsv, toMarkdown, BookmarkBundle } from './bookmarkExchange';
+import {
+  FOREIGN_FORMAT_NAMES,
+  ForeignImport,
+  foreignProjectRoot,
+  parseForeignBookmarks,
+  resolveForeignBookmarks
+} from './foreignBookmarks';
+
+// 行号右键菜单（editor/lineNumber/context）传给命令的参数，lineNumber 从 1 开始
+interface LineNumberArg {
+  lineNumber: number
+  uri: vscode.Uri
+}
+
+// 书签命令的参数：树视图中的节点、书签 ID（来自编辑器中的悬浮操作）或行号右键菜单所在的行；
+// 从命令面板或快捷键执行时为 undefined
+type CommandArg = BookmarkTreeNode | string | LineNumberArg | undefined;
+
+function isLineNumberArg (arg: unknown): arg is LineNumberArg {
+  return !!arg && typeof (arg as LineNumberArg).lineNumber === 'number' && (arg as LineNumberArg).uri instanceof vscode.Uri;
+}
 
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
@@ -28,17 +59,32 @@ export function activate (context: vscode.ExtensionContext) {
 
   const storageConfig: StorageConfig = {
     type: storageType,
-    location: storageLocation
+    location: storageLocation,
+    dbUrl: config.get<string>('dbUrl') || undefined,
+    username: config.get<string>('username') || undefined,
+    password: config.get<string>('password') || undefined
   };
 
+  // 远程书签服务的凭据（保存在 SecretStorage 中），存储与凭据管理命令共用同一个实例
+  const credentialStore = storageConfig.dbUrl
+    ? new CredentialStore(context, storageConfig.dbUrl, storageConfig)
+    : undefined;
+
+  function requireCredentialStore (): CredentialStore | undefined {
+    if (!credentialStore) {
+      vscode.window.showErrorMessage('请先在设置中配置 bookmarkPlugin.dbUrl');
+    }
+    return credentialStore;
+  }
+
   // 创建存储实例
-  const bookmarkStorage = StorageFactory.create<any[]>(storageConfig, context);
+  const bookmarkStorage = StorageFactory.create<StoredCollection<Bookmark | BookmarkGroup>>(storageConfig, context, credentialStore);
 
   // 创建书签管理器，传入统一的 storage 实例
   const bookmarkManager = new BookmarkManager(
     context,
     bookmarkStorage,
-    bookmarkStorage as any
+    bookmarkStorage
   );
 
   // 创建树形视图提供者
@@ -46,6 +92,7 @@ export function activate (context: vscode.ExtensionContext) {
 
   // 创建可视化管理器
   const visualizationManager = new VisualizationManager(context);
+  const bookmarkNavigator = new BookmarkNavigator(context, bookmarkManager);
 
   // 注册树形视图
   const treeView = vscode.window.createTreeView('bookmarkExplorer', {
@@ -69,6 +116,23 @@ export function activate (context: vscode.ExtensionContext) {
   // 初始设置
   updateSingleSelectionContext();
 
+  // 树视图的显示方式（按分组/按标签）与标签筛选，保存在工作区状态中
+  function applyTreeMode (mode: TreeMode) {
+    bookmarkTreeProvider.setMode(mode);
+    context.workspaceState.update('bookmarkTreeMode', mode);
+    vscode.commands.executeCommand('setContext', 'bookmarkPlugin.treeMode', mode);
+  }
+
+  function applyTagFilter (tags: string[]) {
+    bookmarkTreeProvider.setTagFilter(tags);
+    context.workspaceState.update('bookmarkTagFilter', tags);
+    vscode.commands.executeCommand('setContext', 'bookmarkPlugin.tagFilterActive', tags.length > 0);
+    treeView.message = tags.length > 0 ? `按标签筛选：${tags.map(tag => `#${tag}`).join(' ')}` : undefined;
+  }
+
+  applyTreeMode(context.workspaceState.get<TreeMode>('bookmarkTreeMode', 'groups'));
+  applyTagFilter(context.workspaceState.get<string[]>('bookmarkTagFilter', []));
+
   // 监听 selection 变化
   treeView.onDidChangeSelection(() => {
     updateSingleSelectionContext();
@@ -79,6 +143,43 @@ export function activate (context: vscode.ExtensionContext) {
     gutterIconPath: context.asAbsolutePath('media/mark.svg'),
     gutterIconSize: 'contain'
   });
+  // 范围书签：以淡色背景标出整个范围
+  const bookmarkRangeDecoration = vscode.window.createTextEditorDecorationType({
+    backgroundColor: new vscode.ThemeColor('bookmarkPlugin.rangeBackground'),
+    isWholeLine: true
+  });
+
+  // 书签笔记在 bookmark-note: 虚拟文件中编辑
+  context.subscriptions.push(
+    vscode.workspace.registerFileSystemProvider(NOTES_SCHEME, new BookmarkNotesProvider(bookmarkManager))
+  );
+
+  // 书签图标的悬浮提示：名称、分组与笔记，并提供重命名、编辑笔记、移动与删除操作
+  const hoverCommands = ['renameBookmark', 'editBookmarkNotes', 'moveBookmarkToGroup', 'removeBookmark', 'jumpToBookmark']
+    .map(name => `vscode-bookmark-plugin.${name}`);
+  function createBookmarkHover (bookmark: Bookmark): vscode.MarkdownString {
+    const groupName = bookmark.groupId ? bookmarkManager.getGroupNameById(bookmark.groupId) : '未分组';
+    const link = (title: string, command: string) =>
+      `[${title}](command:${command}?${encodeURIComponent(JSON.stringify([bookmark.id]))} "${title}")`;
+    const hover = new vscode.MarkdownString(undefined, true);
+    hover.isTrusted = { enabledCommands: hoverCommands };
+    hover.appendMarkdown('$(bookmark) ');
+    hover.appendText(`${bookmark.label} — ${groupName}`);
+    if (bookmark.tags && bookmark.tags.length > 0) {
+      hover.appendMarkdown(' &nbsp; $(tag) ');
+      hover.appendText(bookmark.tags.map(tag => `#${tag}`).join(' '));
+    }
+    if (bookmark.description) {
+      hover.appendMarkdown('\n\n' + renderNotes(bookmark.description, hoverCommands[4]));
+    }
+    hover.appendMarkdown('\n\n---\n\n' + [
+      link('$(edit) 重命名', hoverCommands[0]),
+      link('$(note) 笔记', hoverCommands[1]),
+      link('$(folder) 移动到分组', hoverCommands[2]),
+      link('$(trash) 删除', hoverCommands[3])
+    ].join(' &nbsp; '));
+    return hover;
+  }
 
   // 更新某个编辑器的装饰
   function updateEditorDecorations (editor?: vscode.TextEditor) {
@@ -86,19 +187,25 @@ export function activate (context: vscode.ExtensionContext) {
     if (!activeEditor) { return; }
 
     const filePath = activeEditor.document.fileName;
-    const bookmarksForFile = bookmarkManager.getBookmarksForFile(filePath);
+    // 已失效（无法定位）的书签不在编辑器中显示，避免指向错误的代码
+    const bookmarksForFile = bookmarkManager.getBookmarksForFile(filePath).filter(b => !b.orphaned);
 
     const ranges: vscode.DecorationOptions[] = bookmarksForFile.map(b => {
       const pos = new vscode.Position(b.line, b.column);
       const range = new vscode.Range(pos, pos);
-      const groupName = b.groupId ? bookmarkManager.getGroupNameById(b.groupId) : '未分组';
       return {
         range,
-        hoverMessage: `${b.label} — ${groupName}`
+        hoverMessage: createBookmarkHover(b)
       } as vscode.DecorationOptions;
     });
 
     activeEditor.setDecorations(bookmarkGutterDecoration, ranges);
+    activeEditor.setDecorations(
+      bookmarkRangeDecoration,
+      bookmarksForFile
+        .filter(b => b.endLine !== undefined)
+        .map(b => new vscode.Range(b.line, 0, b.endLine!, 0))
+    );
   }
 
   // 初次激活时更新当前编辑器
@@ -109,18 +216,250 @@ export function activate (context: vscode.ExtensionContext) {
     updateEditorDecorations(editor ?? undefined);
   }, null, context.subscriptions);
 
-  // 监听文档改变（例如行号变化或文件保存）以更新装饰
+  // 监听文档改变：同步书签行号，并更新装饰
   vscode.workspace.onDidChangeTextDocument(e => {
+    bookmarkManager.applyDocumentChanges(e);
     if (vscode.window.activeTextEditor && e.document === vscode.window.activeTextEditor.document) {
       updateEditorDecorations(vscode.window.activeTextEditor);
     }
   }, null, context.subscriptions);
 
+  // 文件保存时持久化书签的新位置
+  vscode.workspace.onDidSaveTextDocument(document => {
+    bookmarkManager.commitDocumentPositions(document);
+  }, null, context.subscriptions);
+
+  // 打开文件时按所在符号重新定位其中的符号书签
+  vscode.workspace.onDidOpenTextDocument(document => {
+    bookmarkManager.resolveSymbols(document);
+  }, null, context.subscriptions);
+  vscode.workspace.textDocuments.forEach(document => bookmarkManager.resolveSymbols(document));
+
+  // 文件未保存即关闭时，丢弃未提交的位置变化
+  vscode.workspace.onDidCloseTextDocument(document => {
+    bookmarkManager.discardDocumentPositions(document);
+  }, null, context.subscriptions);
+
+  // 监听磁盘上的文件变化（git pull、格式化工具等），按内容锚点重新定位书签；文件被删除时标记为失效书签
+  const fileWatcher = vscode.workspace.createFileSystemWatcher('**/*');
+  fileWatcher.onDidChange(uri => {
+    bookmarkManager.relocateBookmarksForFile(uri.fsPath);
+  }, null, context.subscriptions);
+  fileWatcher.onDidCreate(uri => {
+    bookmarkManager.relocateBookmarksForFile(uri.fsPath);
+  }, null, context.subscriptions);
+  fileWatcher.onDidDelete(uri => {
+    bookmarkManager.checkBookmarksInside(uri.fsPath);
+  }, null, context.subscriptions);
+  context.subscriptions.push(fileWatcher);
+
+  // 在 VS Code 中重命名、移动（包括重构）或删除文件与文件夹时，更新或清理其中的书签
+  vscode.workspace.onDidRenameFiles(e => {
+    bookmarkManager.handleFilesRenamed(e.files.map(f => ({ oldPath: f.oldUri.fsPath, newPath: f.newUri.fsPath })));
+  }, null, context.subscriptions);
+  vscode.workspace.onDidDeleteFiles(e => {
+    bookmarkManager.handleFilesDeleted(e.files.map(uri => uri.fsPath));
+  }, null, context.subscriptions);
+
+  // 工作区文件夹增减时加载或卸载对应的书签
+  vscode.workspace.onDidChangeWorkspaceFolders(e => {
+    bookmarkManager.handleWorkspaceFoldersChanged(e);
+  }, null, context.subscriptions);
+
+  // 按 Git 分支显示书签：切换分支（.git/HEAD 变化）、修改设置或回到窗口（可能在终端中切换了分支）时重新读取当前分支
+  const headWatcher = vscode.workspace.createFileSystemWatcher('**/.git/HEAD');
+  headWatcher.onDidChange(() => bookmarkManager.refreshBranches(), null, context.subscriptions);
+  headWatcher.onDidCreate(() => bookmarkManager.refreshBranches(), null, context.subscriptions);
+  context.subscriptions.push(headWatcher);
+  vscode.window.onDidChangeWindowState(state => {
+    if (state.focused) {
+      bookmarkManager.refreshBranches();
+    }
+  }, null, context.subscriptions);
+  vscode.workspace.onDidChangeConfiguration(e => {
+    if (e.affectsConfiguration('bookmarkPlugin.branchScoping')) {
+      bookmarkManager.refreshBranches();
+    }
+  }, null, context.subscriptions);
+
+  // 树视图标题旁显示当前分支
+  function updateBranchDescription () {
+    const branches = new Set(bookmarkManager.getLoadedFolders()
+      .map(folder => bookmarkManager.getCurrentBranch(folder))
+      .filter((branch): branch is string => !!branch));
+    treeView.description = branches.size > 0 ? `分支: ${Array.from(branches).join(', ')}` : undefined;
+  }
+  updateBranchDescription();
+  context.subscriptions.push(bookmarkManager.getOnDidChangeBranch()(updateBranchDescription));
+
+  // 工作区文件夹的路径，用于读取其中的 git 仓库
+  const folderPathOf = (folder: string): string | undefined =>
+    vscode.workspace.workspaceFolders?.find(f => f.name === folder)?.uri.fsPath;
+
+  // 命令参数中的书签：树视图中的书签节点、书签 ID（来自编辑器中的悬浮操作），或行号右键菜单所在行的书签
+  const bookmarkFromArg = (item: CommandArg): Bookmark | undefined => {
+    if (typeof item === 'string') {
+      return bookmarkManager.getAllBookmarks().find(b => b.id === item);
+    }
+    if (isLineNumberArg(item)) {
+      return bookmarkManager.getBookmarksForFile(item.uri.fsPath).find(b => b.line === item.lineNumber - 1);
+    }
+    return item instanceof BookmarkItem ? item.bookmark : undefined;
+  };
+
+  // 从所有书签中选择一个（excludeId 对应的书签除外）；返回 undefined 表示没有书签或用户取消
+  const pickBookmark = async (placeHolder: string, excludeId?: string): Promise<Bookmark | undefined> => {
+    const bookmarks = bookmarkManager.getAllBookmarks().filter(b => b.id !== excludeId);
+    if (bookmarks.length === 0) {
+      vscode.window.showInformationMessage('还没有书签');
+      return undefined;
+    }
+    const pick = await vscode.window.showQuickPick(
+      bookmarks.map(b => ({ label: b.label, description: `${b.file}:${b.line + 1}`, bookmark: b })),
+      { placeHolder, matchOnDescription: true }
+    );
+    return pick?.bookmark;
+  };
+
+  // 树视图中多选的书签（按标签显示时同一书签可能出现多次）
+  const selectedBookmarks = (items?: CommandArg[]): Bookmark[] => {
+    const bookmarks = (items ?? []).map(bookmarkFromArg).filter((b): b is Bookmark => !!b);
+    return Array.from(new Set(bookmarks));
+  };
+
+  // 命令作用的书签：树视图中选中的多个书签、单个书签节点或书签 ID；
+  // 从命令面板执行时为光标所在行的书签，没有时让用户选择一个
+  const targetBookmarks = async (item: CommandArg, items: CommandArg[] | undefined, placeHolder: string): Promise<Bookmark[]> => {
+    const selected = selectedBookmarks(items && items.length > 0 ? items : [item]);
+    if (selected.length > 0 || item) {
+      return selected;
+    }
+    const editor = vscode.window.activeTextEditor;
+    if (editor) {
+      const atCursor = bookmarkManager.getBookmarksForFile(editor.document.uri.fsPath)
+        .filter(b => b.line === editor.selection.active.line);
+      if (atCursor.length > 0) {
+        return atCursor;
+      }
+    }
+    const picked = await pickBookmark(placeHolder);
+    return picked ? [picked] : [];
+  };
+
+  // 导出书签（JSON / Markdown / CSV）；selection 为空时导出全部书签
+  const exportBookmarks = async (selection?: Bookmark[]): Promise<void> => {
+    const formats = [
+      { label: 'JSON', description: '完整数据，可再次导入', extension: 'json' },
+      { label: 'Markdown', description: '按分组排列，带文件链接，适合代码评审', extension: 'md' },
+      { label: 'CSV', description: '每行一个书签，适合表格软件', extension: 'csv' }
+    ];
+    const format = await vscode.window.showQuickPick(formats, { placeHolder: '选择导出格式' });
+    if (!format) {
+      return;
+    }
+
+    const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: defaultFolder ? vscode.Uri.joinPath(defaultFolder, `bookmarks.${format.extension}`) : undefined,
+      filters: { [format.label]: [format.extension] }
+    });
+    if (!target) {
+      return;
+    }
+
+    const all = bookmarkManager.getBookmarksGrouped();
+    const grouped = selection ? filterGrouped(all, new Set(selection.map(b => b.id))) : all;
+    const bookmarks = selection ?? bookmarkManager.getAllBookmarks();
+    let content: string;
+    if (format.extension === 'json') {
+      const groups = bookmarkManager.getAllGroups().filter(g => !selection || grouped.groupedBookmarks.has(g.id));
+      content = JSON.stringify(createBundle(bookmarks, groups), null, 2);
+    } else if (format.extension === 'csv') {
+      content = toCsv(bookmarks, id => bookmarkManager.getGroupNames(id));
+    } else {
+      // 链接使用相对导出文件的路径，便于随仓库一起提交
+      const exportDir = path.dirname(target.fsPath);
+      content = toMarkdown(grouped, bookmark => {
+        const relative = path.relative(exportDir, bookmarkManager.resolveBookmarkFile(bookmark)).split(path.sep).join('/');
+        return `${relative}#L${bookmark.line + 1}`;
+      });
+    }
+
+    try {
+      await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+    } catch (e) {
+      console.error('Failed to export bookmarks:', e);
+      vscode.window.showErrorMessage(`导出书签失败: ${target.fsPath}`);
+      return;
+    }
+    vscode.window.showInformationMessage(`已导出 ${bookmarks.length} 个书签到 ${target.fsPath}`);
+  };
+
+  // 选择多个标签；allowNew 时输入框中以空格或逗号分隔的文字也作为标签。返回 undefined 表示用户取消
+  const pickTags = (placeholder: string, tags: string[], options: { selected?: string[], allowNew?: boolean } = {}) =>
+    new Promise<string[] | undefined>(resolve => {
+      const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem>();
+      quickPick.placeholder = placeholder;
+      quickPick.canSelectMany = true;
+      quickPick.items = tags.map(tag => ({ label: tag, iconPath: new vscode.ThemeIcon('tag') }));
+      quickPick.selectedItems = quickPick.items.filter(item => options.selected?.includes(item.label));
+      let result: string[] | undefined;
+      quickPick.onDidAccept(() => {
+        const typed = options.allowNew ? parseTags(quickPick.value) : [];
+        result = Array.from(new Set([...quickPick.selectedItems.map(item => item.label), ...typed]));
+        quickPick.hide();
+      });
+      quickPick.onDidHide(() => {
+        quickPick.dispose();
+        resolve(result);
+      });
+      quickPick.show();
+    });
+
+  // 命令参数中的标签：标签节点，或让用户从已有的标签中选择一个
+  const tagFromArg = async (item: CommandArg, placeHolder: string): Promise<string | undefined> => {
+    if (item instanceof TagItem) {
+      return item.tag;
+    }
+    const tags = bookmarkManager.getAllTags();
+    if (tags.length === 0) {
+      vscode.window.showInformationMessage('还没有标签');
+      return undefined;
+    }
+    const pick = await vscode.window.showQuickPick(
+      tags.map(({ tag, count }) => ({ label: tag, description: `${count} 个书签`, iconPath: new vscode.ThemeIcon('tag') })),
+      { placeHolder }
+    );
+    return pick?.label;
+  };
+
+  // 新建根级分组所属的工作区文件夹：在文件夹/范围节点上触发时使用该节点的文件夹，
+  // 多根工作区中让用户选择；返回 undefined 表示用户取消
+  const pickGroupFolder = async (item?: CommandArg): Promise<string | undefined> => {
+    if ((item instanceof ScopeItem || item instanceof FolderItem) && item.folder !== undefined) {
+      return item.folder;
+    }
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (folders.length > 1) {
+      const picked = await vscode.window.showWorkspaceFolderPick({ placeHolder: '选择分组所属的工作区文件夹' });
+      return picked?.name;
+    }
+    return folders[0]?.name ?? '';
+  };
+
   // 监听书签树数据变化，刷新编辑器装饰
   bookmarkManager.getOnDidChangeTreeData()(() => {
     updateEditorDecorations(vscode.window.activeTextEditor ?? undefined);
   });
 
+  // 撤销/重做按钮与快捷键的可用状态
+  function updateHistoryContext () {
+    vscode.commands.executeCommand('setContext', 'bookmarkPlugin.canUndo', bookmarkManager.getUndoLabel() !== undefined);
+    vscode.commands.executeCommand('setContext', 'bookmarkPlugin.canRedo', bookmarkManager.getRedoLabel() !== undefined);
+  }
+  updateHistoryContext();
+  context.subscriptions.push(bookmarkManager.getOnDidChangeHistory()(updateHistoryContext));
+
 
   // 注册命令
   const commands = [
@@ -132,10 +471,55 @@ export function activate (context: vscode.ExtensionContext) {
       }
     ),
 
+    // 撤销/重做最近的书签操作（添加、删除、重命名、移动、排序、优先级等）
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.undo',
+      async () => {
+        const label = await bookmarkManager.undo();
+        vscode.window.setStatusBarMessage(label ? `$(discard) 已撤销：${label}` : '没有可撤销的书签操作', 3000);
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.redo',
+      async () => {
+        const label = await bookmarkManager.redo();
+        vscode.window.setStatusBarMessage(label ? `$(redo) 已重做：${label}` : '没有可重做的书签操作', 3000);
+      }
+    ),
+
+    // 切换光标所在行（或行号右键菜单所在行）的书签
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.toggleBookmark',
+      async (arg?: CommandArg) => {
+        if (isLineNumberArg(arg)) {
+          const document = await vscode.workspace.openTextDocument(arg.uri);
+          await bookmarkManager.toggleBookmark(document, arg.lineNumber - 1);
+        } else {
+          await bookmarkManager.toggleBookmark();
+        }
+      }
+    ),
+
+    // 添加团队书签（保存在工作区 .vscode/team-bookmarks.json 中）
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.addTeamBookmark',
+      () => {
+        bookmarkManager.addBookmark(undefined, 'team');
+      }
+    ),
+
     // 删除书签
     vscode.commands.registerCommand(
       'vscode-bookmark-plugin.removeBookmark',
-      async (item: any) => {
+      async (item?: CommandArg, items?: CommandArg[]) => {
+        // 树视图中多选时一次删除所有选中的书签
+        const selected = selectedBookmarks(items);
+        if (selected.length > 1) {
+          await bookmarkManager.removeBookmarks(selected.map(b => b.id));
+          return;
+        }
+
         // 支持直接传入 bookmarkId 或传入 TreeItem (BookmarkItem)
         let bookmarkId: string | undefined;
         if (!item) {
@@ -150,13 +534,9 @@ export function activate (context: vscode.ExtensionContext) {
             { placeHolder: '选择要删除的书签' }
           );
           if (!pick) { return; }
-          bookmarkId = (pick as any).id;
-        } else if (typeof item === 'string') {
-          bookmarkId = item;
-        } else if (item.bookmark && item.bookmark.id) {
-          bookmarkId = item.bookmark.id;
-        } else if (item.id) {
-          bookmarkId = item.id;
+          bookmarkId = pick.id;
+        } else {
+          bookmarkId = bookmarkFromArg(item)?.id;
         }
 
         if (!bookmarkId) { return; }
@@ -169,10 +549,36 @@ export function activate (context: vscode.ExtensionContext) {
     vscode.commands.registerCommand(
       'vscode-bookmark-plugin.jumpToBookmark',
       (bookmarkId: string) => {
+        bookmarkNavigator.recordVisit(bookmarkId);
         bookmarkManager.jumpToBookmark(bookmarkId);
       }
     ),
 
+    // 转到书签（模糊搜索）
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.goToBookmark',
+      () => bookmarkNavigator.show(bookmarkTreeProvider.getTagFilter().map(tag => `#${tag} `).join(''))
+    ),
+
+    // 上一个/下一个书签：当前文件、当前分组、全部书签
+    ...([
+      ['nextBookmarkInFile', 'file', 1],
+      ['previousBookmarkInFile', 'file', -1],
+      ['nextBookmarkInGroup', 'group', 1],
+      ['previousBookmarkInGroup', 'group', -1],
+      ['nextBookmark', 'global', 1],
+      ['previousBookmark', 'global', -1]
+    ] as [string, NavigationScope, 1 | -1][]).map(([name, scope, direction]) =>
+      vscode.commands.registerCommand(`vscode-bookmark-plugin.${name}`, async () => {
+        const target = await bookmarkNavigator.step(scope, direction);
+        // 按分组切换时在树视图中显示当前书签；其它范围仅在书签视图可见时同步选中
+        if (target && (scope === 'group' || treeView.visible)) {
+          treeView.reveal(bookmarkTreeProvider.getBookmarkItem(target), { select: true, focus: false })
+            .then(undefined, () => { /* 书签被标签筛选隐藏时无法显示 */ });
+        }
+      })
+    ),
+
     // 刷新书签列表
     vscode.commands.registerCommand(
       'vscode-bookmark-plugin.refreshBookmarks',
@@ -184,7 +590,14 @@ export function activate (context: vscode.ExtensionContext) {
     // 添加分组/子分组
     vscode.commands.registerCommand(
       'vscode-bookmark-plugin.addGroup',
-      async () => {
+      async (item?: CommandArg) => {
+        // 在范围节点上触发时，在该范围下创建分组
+        const scope: BookmarkScope = item instanceof ScopeItem ? item.scope : 'personal';
+        const folder = await pickGroupFolder(item);
+        if (folder === undefined) {
+          return;
+        }
+
         // 第一步：输入分组名称（初始名），使用轻量的 showInputBox
         const groupName = await vscode.window.showInputBox({
           prompt: '请输入新分组名称',
@@ -197,7 +610,7 @@ export function activate (context: vscode.ExtensionContext) {
         }
         const trimmedName = groupName.trim();
         // 创建分组并获取返回的分组对象
-        const created = await bookmarkManager.createGroup(trimmedName, true, undefined); 
+        const created = await bookmarkManager.createGroup(trimmedName, true, undefined, scope, folder);
         if (!created) {
           return;
         }
@@ -206,6 +619,26 @@ export function activate (context: vscode.ExtensionContext) {
       }
     ),
 
+    // 添加团队分组
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.addTeamGroup',
+      async () => {
+        const folder = await pickGroupFolder();
+        if (folder === undefined) {
+          return;
+        }
+        const groupName = await vscode.window.showInputBox({
+          prompt: '请输入团队分组名称',
+          placeHolder: '团队分组名称'
+        });
+
+        if (!groupName) {
+          return;
+        }
+        await bookmarkManager.createGroup(groupName.trim(), false, undefined, 'team', folder);
+      }
+    ),
+
     vscode.commands.registerCommand(
       'vscode-bookmark-plugin.addSubGroup',
       async (item: any) => {
@@ -294,14 +727,14 @@ export function activate (context: vscode.ExtensionContext) {
     // 移动书签到分组
     vscode.commands.registerCommand(
       'vscode-bookmark-plugin.moveBookmarkToGroup',
-      (item: any) => {
-        let bookmarkId: string;
-        if (item && item.bookmark) {
-          bookmarkId = item.bookmark.id;
-        } else {
+      (item?: CommandArg, items?: CommandArg[]) => {
+        const bookmark = bookmarkFromArg(item);
+        if (!bookmark) {
           vscode.window.showErrorMessage('请在书签上右键使用此功能');
           return;
         }
+        const bookmarkId = bookmark.id;
+        const selected = selectedBookmarks(items);
 
         const groups = bookmarkManager.getAllGroups();
         const groupItems = groups.map(group => ({
@@ -321,18 +754,118 @@ export function activate (context: vscode.ExtensionContext) {
           .showQuickPick(groupItems, {
             placeHolder: '选择目标分组'
           })
-          .then(selectedGroup => {
-            if (selectedGroup) {
-              const targetGroupId = selectedGroup.groupId || undefined;
-              bookmarkManager.moveBookmarkToGroupWithMessage(
-                bookmarkId,
-                targetGroupId
-              );
+          .then(async selectedGroup => {
+            if (!selectedGroup) {
+              return;
+            }
+            const targetGroupId = selectedGroup.groupId || undefined;
+            if (selected.length > 1) {
+              const count = await bookmarkManager.moveBookmarksToGroup(selected.map(b => b.id), targetGroupId);
+              const targetName = targetGroupId ? `分组 "${bookmarkManager.getGroupPath(targetGroupId)}"` : '根级别';
+              vscode.window.showInformationMessage(`已将 ${count} 个书签移动到${targetName}`);
+              return;
             }
+            bookmarkManager.moveBookmarkToGroupWithMessage(
+              bookmarkId,
+              targetGroupId
+            );
           });
       }
     ),
 
+    // 在个人书签与团队书签之间移动书签或分组
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.toggleItemScope',
+      async (item?: CommandArg) => {
+        if (item instanceof BookmarkItem) {
+          const target: BookmarkScope = scopeOf(item.bookmark) === 'team' ? 'personal' : 'team';
+          if (await bookmarkManager.setBookmarkScope(item.bookmark.id, target)) {
+            vscode.window.showInformationMessage(`书签 "${item.bookmark.label}" 已移动到${target === 'team' ? '团队书签' : '个人书签'}`);
+          }
+        } else if (item instanceof GroupItem) {
+          const target: BookmarkScope = scopeOf(item.group) === 'team' ? 'personal' : 'team';
+          if (await bookmarkManager.setGroupScope(item.group.id, target)) {
+            vscode.window.showInformationMessage(`分组 "${item.group.name}" 已移动到${target === 'team' ? '团队书签' : '个人书签'}`);
+          }
+        }
+      }
+    ),
+
+    // 把个人书签复制到另一个 Git 分支
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.copyBookmarksToBranch',
+      async (item?: CommandArg, items?: CommandArg[]) => {
+        if (!vscode.workspace.getConfiguration('bookmarkPlugin').get<boolean>('branchScoping', false)) {
+          vscode.window.showInformationMessage('请先在设置中启用 bookmarkPlugin.branchScoping（按 Git 分支显示书签）');
+          return;
+        }
+        const bookmarks = await targetBookmarks(item, items, '选择要复制到其它分支的书签');
+        const personal = bookmarks.filter(b => scopeOf(b) === 'personal' && b.branch);
+        if (bookmarks.length === 0) {
+          return;
+        }
+        if (personal.length === 0) {
+          vscode.window.showInformationMessage('团队书签与全局书签在所有分支上显示，不需要复制');
+          return;
+        }
+
+        const branches = new Set<string>();
+        for (const folder of new Set(personal.map(folderOf))) {
+          const folderPath = folderPathOf(folder);
+          (folderPath ? await listBranches(folderPath) : []).forEach(branch => branches.add(branch));
+        }
+        const current = bookmarkManager.getCurrentBranch(folderOf(personal[0]));
+        const picked = await vscode.window.showQuickPick(
+          [
+            ...Array.from(branches).map(branch => ({ label: branch, description: branch === current ? '当前分支' : undefined, branch })),
+            { label: '$(edit) 输入分支名称…', description: undefined, branch: undefined }
+          ],
+          { placeHolder: `将 ${personal.length} 个书签复制到分支` }
+        );
+        if (!picked) {
+          return;
+        }
+        const branch = picked.branch ?? (await vscode.window.showInputBox({ prompt: '输入分支名称（可以是尚未创建的分支）' }))?.trim();
+        if (!branch) {
+          return;
+        }
+        const count = await bookmarkManager.copyBookmarksToBranch(personal.map(b => b.id), branch);
+        vscode.window.showInformationMessage(count > 0
+          ? `已将 ${count} 个书签复制到分支 "${branch}"`
+          : `所选书签已属于分支 "${branch}"`);
+      }
+    ),
+
+    // 把当前分支的书签设为全局书签（在所有分支上显示）
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.promoteBookmarksToGlobal',
+      async (item?: CommandArg, items?: CommandArg[]) => {
+        const bookmarks = await targetBookmarks(item, items, '选择要设为全局的书签');
+        if (bookmarks.length === 0) {
+          return;
+        }
+        const count = await bookmarkManager.setBookmarksBranch(bookmarks.map(b => b.id), 'global');
+        vscode.window.showInformationMessage(count > 0
+          ? `已将 ${count} 个书签设为全局书签，在所有分支上显示`
+          : '所选书签已经在所有分支上显示');
+      }
+    ),
+
+    // 把全局书签设为只在当前分支显示
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.limitBookmarksToBranch',
+      async (item?: CommandArg, items?: CommandArg[]) => {
+        const bookmarks = await targetBookmarks(item, items, '选择只在当前分支显示的书签');
+        if (bookmarks.length === 0) {
+          return;
+        }
+        const count = await bookmarkManager.setBookmarksBranch(bookmarks.map(b => b.id), 'current');
+        vscode.window.showInformationMessage(count > 0
+          ? `已将 ${count} 个书签设为只在当前分支显示`
+          : '所选书签已属于当前分支（团队书签、未启用按分支显示或不在分支上时无法设置）');
+      }
+    ),
+
     // 设置分组为默认
     vscode.commands.registerCommand(
       'vscode-bookmark-plugin.setGroupAsDefault',
@@ -348,7 +881,11 @@ export function activate (context: vscode.ExtensionContext) {
     // 设置书签优先级
     vscode.commands.registerCommand(
       'vscode-bookmark-plugin.setBookmarkPriority',
-      (bookmarkId: string) => {
+      async (item?: CommandArg, items?: CommandArg[]) => {
+        const bookmarks = await targetBookmarks(item, items, '选择要设置优先级的书签');
+        if (bookmarks.length === 0) {
+          return;
+        }
         const priorityItems = [
           {
             label: '⭐ 高优先级',
@@ -369,12 +906,17 @@ export function activate (context: vscode.ExtensionContext) {
 
         vscode.window
           .showQuickPick(priorityItems, {
-            placeHolder: '选择书签优先级'
+            placeHolder: bookmarks.length > 1 ? `选择 ${bookmarks.length} 个书签的优先级` : '选择书签优先级'
           })
           .then(selectedPriority => {
-            if (selectedPriority) {
+            if (!selectedPriority) {
+              return;
+            }
+            if (bookmarks.length > 1) {
+              bookmarkManager.setBookmarksPriority(bookmarks.map(b => b.id), selectedPriority.priority);
+            } else {
               bookmarkManager.setBookmarkPriority(
-                bookmarkId,
+                bookmarks[0].id,
                 selectedPriority.priority
               );
             }
@@ -385,12 +927,13 @@ export function activate (context: vscode.ExtensionContext) {
     // 重命名书签
     vscode.commands.registerCommand(
       'vscode-bookmark-plugin.renameBookmark',
-      async (item: any) => {
-        if (!item || !item.bookmark) {
+      async (item?: CommandArg) => {
+        const bookmark = bookmarkFromArg(item);
+        if (!bookmark) {
           return;
         }
-        const bookmarkId = item.bookmark.id;
-        const oldLabel = item.bookmark.label;
+        const bookmarkId = bookmark.id;
+        const oldLabel = bookmark.label;
 
         const newLabel = await vscode.window.showInputBox({
           prompt: '输入新的书签名称',
@@ -411,6 +954,160 @@ export function activate (context: vscode.ExtensionContext) {
       }
     ),
 
+    // 在旁边的 Markdown 编辑器中编辑书签笔记，保存后写回书签
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.editBookmarkNotes',
+      async (item?: CommandArg) => {
+        const bookmark = bookmarkFromArg(item ?? treeView.selection[0]) ?? await pickBookmark('选择要编辑笔记的书签');
+        if (!bookmark) {
+          return;
+        }
+        const document = await vscode.workspace.openTextDocument(BookmarkNotesProvider.uriFor(bookmark));
+        await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.Beside, preview: false });
+      }
+    ),
+
+    // 在笔记中插入指向其它书签的链接
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.insertBookmarkLink',
+      async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+          return;
+        }
+        const target = await pickBookmark('选择要链接的书签', BookmarkNotesProvider.bookmarkIdOf(editor.document.uri));
+        if (!target) {
+          return;
+        }
+        await editor.edit(edit => {
+          editor.selections.forEach(selection => edit.replace(selection, bookmarkLink(target)));
+        });
+      }
+    ),
+
+    // 为书签添加标签（可选择已有标签，或输入新标签）
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.addBookmarkTags',
+      async (item?: CommandArg, items?: CommandArg[]) => {
+        const bookmarks = await targetBookmarks(item, items, '选择要添加标签的书签');
+        if (bookmarks.length === 0) {
+          return;
+        }
+        const tags = await pickTags(
+          '选择标签，或输入新标签（多个标签以空格分隔）',
+          bookmarkManager.getAllTags().map(({ tag }) => tag),
+          { allowNew: true }
+        );
+        if (!tags || tags.length === 0) {
+          return;
+        }
+        await bookmarkManager.addTags(bookmarks.map(b => b.id), tags);
+        vscode.window.showInformationMessage(`已为 ${bookmarks.length} 个书签添加标签 ${tags.map(tag => `#${tag}`).join(' ')}`);
+      }
+    ),
+
+    // 移除书签的标签
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.removeBookmarkTags',
+      async (item?: CommandArg, items?: CommandArg[]) => {
+        const bookmarks = await targetBookmarks(item, items, '选择要移除标签的书签');
+        const present = Array.from(new Set(bookmarks.flatMap(b => b.tags ?? []))).sort();
+        if (present.length === 0) {
+          if (bookmarks.length > 0) {
+            vscode.window.showInformationMessage('所选书签没有标签');
+          }
+          return;
+        }
+        const tags = await pickTags('选择要移除的标签', present, { selected: present.length === 1 ? present : [] });
+        if (!tags || tags.length === 0) {
+          return;
+        }
+        await bookmarkManager.removeTags(bookmarks.map(b => b.id), tags);
+      }
+    ),
+
+    // 重命名标签：应用到所有书签，新名称已存在时合并到该标签
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.renameTag',
+      async (item?: CommandArg) => {
+        const tag = await tagFromArg(item, '选择要重命名的标签');
+        if (!tag) {
+          return;
+        }
+        const input = await vscode.window.showInputBox({
+          prompt: `输入标签 #${tag} 的新名称，与已有标签同名时合并`,
+          value: tag,
+          validateInput: value => normalizeTag(value) ? undefined : '标签不能为空'
+        });
+        const target = input === undefined ? '' : normalizeTag(input);
+        if (!target || target === tag) {
+          return;
+        }
+        const merged = bookmarkManager.getAllTags().some(t => t.tag === target);
+        const count = await bookmarkManager.mergeTags([tag], target);
+        applyTagFilter(Array.from(new Set(bookmarkTreeProvider.getTagFilter().map(t => t === tag ? target : t))));
+        bookmarkManager.showUndoableMessage(merged
+          ? `已将标签 #${tag} 合并到 #${target}（${count} 个书签）`
+          : `已将标签 #${tag} 重命名为 #${target}（${count} 个书签）`);
+      }
+    ),
+
+    // 合并多个标签：所有书签上的这些标签替换为一个标签
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.mergeTags',
+      async (item?: CommandArg) => {
+        const sources = await pickTags(
+          '选择要合并的标签（至少两个）',
+          bookmarkManager.getAllTags().map(({ tag }) => tag),
+          { selected: item instanceof TagItem && item.tag ? [item.tag] : [] }
+        );
+        if (!sources) {
+          return;
+        }
+        if (sources.length < 2) {
+          vscode.window.showInformationMessage('请至少选择两个标签；修改单个标签的名称请使用“重命名标签”');
+          return;
+        }
+        const input = await vscode.window.showInputBox({
+          prompt: `合并 ${sources.map(tag => `#${tag}`).join(' ')} 后的标签名称`,
+          value: sources[0],
+          validateInput: value => normalizeTag(value) ? undefined : '标签不能为空'
+        });
+        const target = input === undefined ? '' : normalizeTag(input);
+        if (!target) {
+          return;
+        }
+        const count = await bookmarkManager.mergeTags(sources, target);
+        applyTagFilter(Array.from(new Set(bookmarkTreeProvider.getTagFilter().map(t => sources.includes(t) ? target : t))));
+        bookmarkManager.showUndoableMessage(`已将 ${sources.length} 个标签合并为 #${target}（${count} 个书签）`);
+      }
+    ),
+
+    // 树视图按标签显示/按分组显示
+    vscode.commands.registerCommand('vscode-bookmark-plugin.showTagView', () => applyTreeMode('tags')),
+    vscode.commands.registerCommand('vscode-bookmark-plugin.showGroupView', () => applyTreeMode('groups')),
+
+    // 按标签筛选树视图：只显示带有全部所选标签的书签
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.filterByTag',
+      async (item?: CommandArg) => {
+        const tags = bookmarkManager.getAllTags().map(({ tag }) => tag);
+        if (tags.length === 0) {
+          vscode.window.showInformationMessage('还没有标签');
+          return;
+        }
+        const current = bookmarkTreeProvider.getTagFilter();
+        const selected = await pickTags('选择标签，只显示带有全部所选标签的书签', tags, {
+          selected: item instanceof TagItem && item.tag ? [item.tag] : current
+        });
+        if (selected) {
+          applyTagFilter(selected);
+        }
+      }
+    ),
+
+    vscode.commands.registerCommand('vscode-bookmark-plugin.clearTagFilter', () => applyTagFilter([])),
+
     // 上移激活项（组或书签）
     vscode.commands.registerCommand('vscode-bookmark-plugin.moveItemUp', async (item: any) => {
       // 如果没有传入 item，则尝试使用 treeView.selection
@@ -442,6 +1139,358 @@ export function activate (context: vscode.ExtensionContext) {
       updateEditorDecorations(vscode.window.activeTextEditor ?? undefined);
     }),
 
+    // 设置书签服务凭据（保存到 SecretStorage）
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.setDatabaseCredentials',
+      async () => {
+        const store = requireCredentialStore();
+        if (!store) { return; }
+
+        const current = await store.get();
+        const username = await vscode.window.showInputBox({
+          prompt: '输入书签服务用户名',
+          value: current.username ?? ''
+        });
+        if (username === undefined) { return; }
+
+        const password = await vscode.window.showInputBox({
+          prompt: '输入书签服务密码',
+          password: true
+        });
+        if (password === undefined) { return; }
+
+        await store.store({ username: username.trim(), password });
+        vscode.window.showInformationMessage('书签服务凭据已保存到安全存储');
+      }
+    ),
+
+    // 更换书签服务密码
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.rotateDatabasePassword',
+      async () => {
+        const store = requireCredentialStore();
+        if (!store) { return; }
+
+        const password = await vscode.window.showInputBox({
+          prompt: '输入新的书签服务密码',
+          password: true
+        });
+        if (!password) { return; }
+
+        const confirmed = await vscode.window.showInputBox({
+          prompt: '再次输入新的密码',
+          password: true
+        });
+        if (confirmed === undefined) { return; }
+        if (confirmed !== password) {
+          vscode.window.showErrorMessage('两次输入的密码不一致');
+          return;
+        }
+
+        await store.store({ password });
+        vscode.window.showInformationMessage('书签服务密码已更新');
+      }
+    ),
+
+    // 清除书签服务凭据
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.clearDatabaseCredentials',
+      async () => {
+        const store = requireCredentialStore();
+        if (!store) { return; }
+
+        await store.clear();
+        vscode.window.showInformationMessage('书签服务凭据已清除');
+      }
+    ),
+
+    // 清理失效书签（文件不存在或行号超出文件末尾）：逐个重新定位、删除或保留，最后一次保存
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.cleanupBookmarks',
+      async () => {
+        const broken = await bookmarkManager.validateBookmarks();
+        if (broken.length === 0) {
+          vscode.window.showInformationMessage('没有失效的书签');
+          return;
+        }
+
+        const relocations: { bookmarkId: string, file: string }[] = [];
+        const removals: string[] = [];
+        // 按 Esc 结束向导时，剩下的书签保留不变，已做的选择照常生效
+        for (let i = 0; i < broken.length; i++) {
+          const bookmark = broken[i];
+          const problem = bookmarkManager.getProblem(bookmark.id) ?? 'missingFile';
+          const actions: (vscode.QuickPickItem & { action?: string })[] = [
+            ...(problem === 'missingFile'
+              ? [
+                  { label: '$(search) 按文件名查找…', description: path.basename(bookmark.file), action: 'search' },
+                  { label: '$(folder-opened) 选择文件…', action: 'browse' }
+                ]
+              : [
+                  { label: '$(arrow-down) 在原文件中重新定位', description: '按内容锚点查找，找不到时移到最后一行', action: 'clamp' },
+                  { label: '$(folder-opened) 移到其它文件…', action: 'browse' }
+                ]),
+            { label: '$(trash) 删除书签', action: 'remove' },
+            { label: '$(check) 保留', action: 'keep' },
+            { label: '', kind: vscode.QuickPickItemKind.Separator },
+            { label: '$(trash) 删除其余所有失效书签', action: 'removeAll' },
+            { label: '$(check-all) 保留其余所有失效书签', action: 'keepAll' }
+          ];
+          const picked = await vscode.window.showQuickPick(actions, {
+            title: `清理失效书签 (${i + 1}/${broken.length})：${bookmark.label}`,
+            placeHolder: `${bookmark.file}:${lineSpanOf(bookmark)} — ${describeProblem(problem)}`,
+            ignoreFocusOut: true
+          });
+          if (!picked || picked.action === 'keepAll') {
+            break;
+          }
+          if (picked.action === 'removeAll') {
+            removals.push(...broken.slice(i).map(b => b.id));
+            break;
+          }
+
+          let file: string | undefined;
+          if (picked.action === 'remove') {
+            removals.push(bookmark.id);
+          } else if (picked.action === 'clamp') {
+            file = bookmarkManager.resolveBookmarkFile(bookmark);
+          } else if (picked.action === 'search') {
+            const name = path.basename(bookmark.file);
+            const found = await vscode.workspace.findFiles(`**/${name}`, '**/node_modules/**', 50);
+            const candidates = rankCandidates(bookmark.file, found.map(uri => uri.fsPath).filter(f => path.basename(f) === name));
+            if (candidates.length === 0) {
+              vscode.window.showInformationMessage(`工作区中没有名为 ${name} 的文件`);
+              i--;
+              continue;
+            }
+            const candidate = await vscode.window.showQuickPick(
+              candidates.map(f => ({ label: path.basename(f), description: vscode.workspace.asRelativePath(f), file: f })),
+              { placeHolder: `选择书签 "${bookmark.label}" 的新文件` }
+            );
+            file = candidate?.file;
+          } else if (picked.action === 'browse') {
+            const uris = await vscode.window.showOpenDialog({
+              canSelectMany: false,
+              defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+              openLabel: '移到此文件'
+            });
+            file = uris?.[0]?.fsPath;
+          }
+
+          if (file) {
+            relocations.push({ bookmarkId: bookmark.id, file });
+          } else if (picked.action === 'search' || picked.action === 'browse') {
+            // 取消了选择文件，重新处理这个书签
+            i--;
+          }
+        }
+
+        if (relocations.length === 0 && removals.length === 0) {
+          return;
+        }
+        await bookmarkManager.repairBookmarks(relocations, removals);
+        bookmarkManager.showUndoableMessage(`已重新定位 ${relocations.length} 个书签，删除 ${removals.length} 个书签`);
+      }
+    ),
+
+    // 从备份恢复书签
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.restoreFromBackup',
+      async () => {
+        if (!bookmarkStorage.listBackups || !bookmarkStorage.restoreBackup) {
+          vscode.window.showWarningMessage('当前存储类型不支持从备份恢复');
+          return;
+        }
+
+        const reasons: Record<string, string> = {
+          'auto': '自动备份',
+          'corrupt': '损坏的文件',
+          'conflict': '冲突时的外部版本',
+          'before-restore': '恢复前的数据'
+        };
+        const backups = await bookmarkStorage.listBackups();
+        if (backups.length === 0) {
+          vscode.window.showInformationMessage('没有可用的书签备份');
+          return;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+          backups.map(backup => ({
+            label: backup.time.toLocaleString(),
+            description: reasons[backup.reason] ?? `迁移前备份 (${backup.reason})`,
+            detail: backup.path,
+            backup
+          })),
+          { placeHolder: '选择要恢复的备份' }
+        );
+        if (!picked) {
+          return;
+        }
+
+        const confirm = '恢复';
+        const choice = await vscode.window.showWarningMessage(
+          `确定用 ${picked.label} 的备份替换当前所有书签吗？`,
+          { modal: true, detail: '当前数据会先保存为一份新的备份。' },
+          confirm
+        );
+        if (choice !== confirm) {
+          return;
+        }
+
+        try {
+          await bookmarkStorage.restoreBackup(picked.backup.path);
+        } catch (e) {
+          console.error('Failed to restore backup:', e);
+          vscode.window.showErrorMessage(`无法从该备份恢复，文件可能已损坏: ${picked.backup.path}`);
+          return;
+        }
+        await bookmarkManager.reload();
+        vscode.window.showInformationMessage('已从备份恢复书签');
+      }
+    ),
+
+    // 导出书签
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.exportBookmarks',
+      () => exportBookmarks()
+    ),
+
+    // 导出树视图中选中的书签；选中分组时导出其中（包括子分组中）的所有书签
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.exportSelectedBookmarks',
+      async (item?: CommandArg, items?: CommandArg[]) => {
+        const selection = items && items.length > 0 ? items : [item];
+        const bookmarks = [
+          ...selectedBookmarks(selection),
+          ...selection.filter((i): i is GroupItem => i instanceof GroupItem).flatMap(i => bookmarkManager.getBookmarksInTreeOrder(i.group.id))
+        ];
+        if (bookmarks.length === 0) {
+          vscode.window.showInformationMessage('选中的项目中没有书签');
+          return;
+        }
+        await exportBookmarks(Array.from(new Set(bookmarks)));
+      }
+    ),
+
+    // 导入书签
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.importBookmarks',
+      async () => {
+        const picked = await vscode.window.showOpenDialog({
+          canSelectMany: false,
+          filters: { '书签文件': ['json', 'csv'] },
+          openLabel: '导入'
+        });
+        if (!picked || picked.length === 0) {
+          return;
+        }
+
+        let bundle: BookmarkBundle;
+        try {
+          const text = Buffer.from(await vscode.workspace.fs.readFile(picked[0])).toString('utf8');
+          bundle = picked[0].path.toLowerCase().endsWith('.csv')
+            ? parseCsv(text, () => bookmarkManager.generateId())
+            : parseBundle(text);
+        } catch (e) {
+          console.error('Failed to parse bookmark file:', e);
+          vscode.window.showErrorMessage(`无法读取书签文件: ${e instanceof Error ? e.message : e}`);
+          return;
+        }
+
+        const mode = await vscode.window.showQuickPick(
+          [
+            { label: '合并', description: '保留现有书签，跳过位置相同的书签', mode: 'merge' as const },
+            { label: '替换', description: '删除现有的所有书签和分组', mode: 'replace' as const }
+          ],
+          { placeHolder: `导入 ${bundle.bookmarks.length} 个书签、${bundle.groups.length} 个分组` }
+        );
+        if (!mode) {
+          return;
+        }
+        if (mode.mode === 'replace') {
+          const confirm = '替换';
+          const notes = [
+            bookmarkManager.hasTeamScope() ? `团队书签也会被替换，并写入 ${TEAM_BOOKMARK_FILE}（随仓库共享给其他成员）。` : '',
+            vscode.workspace.getConfiguration('bookmarkPlugin').get<boolean>('branchScoping', false)
+              ? '属于其它 Git 分支的书签当前未显示，会被保留。'
+              : ''
+          ].filter(note => note);
+          const choice = await vscode.window.showWarningMessage(
+            '确定删除现有的所有书签和分组，并用导入的数据替换吗？',
+            { modal: true, detail: notes.join('\n') || undefined },
+            confirm
+          );
+          if (choice !== confirm) {
+            return;
+          }
+        }
+
+        const result = await bookmarkManager.importBookmarks(bundle, mode.mode);
+        const skipped = result.duplicates > 0 ? `，跳过 ${result.duplicates} 个重复书签` : '';
+        bookmarkManager.showUndoableMessage(
+          `已导入 ${result.bookmarksAdded} 个书签、${result.groupsAdded} 个分组${skipped}`
+        );
+      }
+    ),
+
+    // 从其它书签插件导入
+    vscode.commands.registerCommand(
+      'vscode-bookmark-plugin.importForeignBookmarks',
+      async () => {
+        const picked = await vscode.window.showOpenDialog({
+          canSelectMany: false,
+          defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+          filters: { 'Bookmarks 扩展 / JetBrains': ['json', 'xml'] },
+          openLabel: '导入'
+        });
+        if (!picked || picked.length === 0) {
+          return;
+        }
+
+        let parsed: ForeignImport;
+        try {
+          const text = Buffer.from(await vscode.workspace.fs.readFile(picked[0])).toString('utf8');
+          parsed = parseForeignBookmarks(text, () => bookmarkManager.generateId());
+        } catch (e) {
+          console.error('Failed to parse foreign bookmark file:', e);
+          vscode.window.showErrorMessage('无法识别该文件，支持 Bookmarks 扩展的 .vscode/bookmarks.json 与 JetBrains 的 .idea/workspace.xml');
+          return;
+        }
+
+        // 相对路径以导入文件所在的项目为基准，书签归属该项目所在的工作区文件夹
+        const projectRoot = foreignProjectRoot(picked[0].fsPath)
+          ?? vscode.workspace.getWorkspaceFolder(picked[0])?.uri.fsPath
+          ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
+          ?? path.dirname(picked[0].fsPath);
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(projectRoot)) ?? vscode.workspace.workspaceFolders?.[0];
+        const resolved = resolveForeignBookmarks(parsed, projectRoot, folder && { name: folder.name, root: folder.uri.fsPath });
+
+        const result = await bookmarkManager.importBookmarks(resolved.bundle, 'merge');
+        const skipped = result.duplicates > 0 ? `，跳过 ${result.duplicates} 个重复书签` : '';
+        const message = `已从${FOREIGN_FORMAT_NAMES[resolved.format]}导入 ${result.bookmarksAdded} 个书签、${result.groupsAdded} 个分组${skipped}`;
+        if (resolved.unresolved.length === 0) {
+          vscode.window.showInformationMessage(message);
+          return;
+        }
+
+        const show = '查看详情';
+        const choice = await vscode.window.showWarningMessage(
+          `${message}；${resolved.unresolved.length} 个条目无法解析`,
+          show
+        );
+        if (choice === show) {
+          const content = [
+            `# 无法解析的书签（${picked[0].fsPath}）`,
+            '',
+            ...resolved.unresolved.map(item => `- \`${item.entry}\`：${item.reason}`),
+            ''
+          ].join('\n');
+          const document = await vscode.workspace.openTextDocument({ content, language: 'markdown' });
+          await vscode.window.showTextDocument(document);
+        }
+      }
+    ),
+
     // 打开可视化视图
     vscode.commands.registerCommand(
       'vscode-bookmark-plugin.openVisualization',
@@ -0,0 +1,308 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Bookmark, BookmarkGroup } from './bookmarkManager';
+import { BookmarkBundle, createBundle } from './bookmarkExchange';
+import { splitLines } from './anchor';
+
+/**
+ * 其它书签插件的数据格式：
+ * - bookmarks：VS Code「Bookmarks」扩展保存在工作区的 .vscode/bookmarks.json，
+ *   包括只有行号的旧格式与带标签的新格式，路径相对工作区或以 $ROOTPATH$ 开头
+ * - jetbrains：JetBrains IDE 的 .idea/workspace.xml（或单独导出的 XML），
+ *   包括带分组的 BookmarksManager 与旧版只有助记符的 BookmarkManager
+ *
+ * 解析结果为书签包：路径为相对项目根目录的路径（使用 /）或绝对路径，
+ * 再由 resolveForeignBookmarks 对照磁盘上的文件换算到工作区文件夹。
+ */
+
+export type ForeignFormat = 'bookmarks' | 'jetbrains';
+
+export const FOREIGN_FORMAT_NAMES: Record<ForeignFormat, string> = {
+  bookmarks: 'Bookmarks 扩展',
+  jetbrains: 'JetBrains IDE'
+};
+
+export interface UnresolvedEntry {
+  entry: string    // 原始条目的位置描述，例如 src/a.ts:12
+  reason: string
+}
+
+export interface ForeignImport {
+  format: ForeignFormat
+  bundle: BookmarkBundle
+  unresolved: UnresolvedEntry[]
+}
+
+export function detectForeignFormat (text: string): ForeignFormat | undefined {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('<')) {
+    return /<component\s+name="Bookmarks?Manager"/.test(trimmed) ? 'jetbrains' : undefined;
+  }
+  try {
+    const raw = JSON.parse(trimmed);
+    return raw && Array.isArray(raw.files) ? 'bookmarks' : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 导入文件所在的项目根目录：.vscode 或 .idea 目录中的文件以其上一级为根目录，否则无法确定
+ */
+export function foreignProjectRoot (importFile: string): string | undefined {
+  const dir = path.dirname(importFile);
+  return ['.vscode', '.idea'].includes(path.basename(dir)) ? path.dirname(dir) : undefined;
+}
+
+export function parseForeignBookmarks (text: string, generateId: () => string): ForeignImport {
+  const format = detectForeignFormat(text);
+  if (format === 'bookmarks') {
+    return parseBookmarksExtension(text, generateId);
+  }
+  if (format === 'jetbrains') {
+    return parseJetBrains(text, generateId);
+  }
+  throw new Error('Unrecognized bookmark format');
+}
+
+function createGroup (id: string, name: string, parentId?: string): BookmarkGroup {
+  return { id, name, isDefault: false, created: new Date(), parentId, priority: 0 };
+}
+
+function createBookmark (id: string, file: string, line: number, column: number, label?: string, groupId?: string): Bookmark {
+  return {
+    id,
+    label: label || `${path.basename(file)}:${line + 1}`,
+    file,
+    line,
+    column,
+    created: new Date(),
+    groupId,
+    priority: 0
+  };
+}
+
+function isLine (value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Bookmarks 扩展：{ files: [{ path, bookmarks: [行号 | { line, column, label }] }] }，行号从 0 开始。
+ * 该扩展没有分组，所有书签放入一个以来源命名的分组
+ */
+function parseBookmarksExtension (text: string, generateId: () => string): ForeignImport {
+  const raw = JSON.parse(text);
+  const group = createGroup(generateId(), 'Bookmarks');
+  const bookmarks: Bookmark[] = [];
+  const unresolved: UnresolvedEntry[] = [];
+
+  for (const entry of raw.files) {
+    const file = typeof entry?.path === 'string' ? entry.path.replace(/^\$ROOTPATH\$[\\/]?/, '').replace(/\\/g, '/') : '';
+    if (!file) {
+      unresolved.push({ entry: JSON.stringify(entry).substring(0, 80), reason: '缺少文件路径' });
+      continue;
+    }
+    for (const item of Array.isArray(entry.bookmarks) ? entry.bookmarks : []) {
+      const line = typeof item === 'number' ? item : item?.line;
+      if (!isLine(line)) {
+        unresolved.push({ entry: `${file}:${JSON.stringify(item)}`, reason: '行号无效' });
+        continue;
+      }
+      const column = isLine(item?.column) ? item.column : 0;
+      bookmarks.push(createBookmark(generateId(), file, line, column, typeof item?.label === 'string' ? item.label : undefined, group.id));
+    }
+  }
+
+  return { format: 'bookmarks', bundle: createBundle(bookmarks, bookmarks.length > 0 ? [group] : []), unresolved };
+}
+
+interface XmlElement {
+  name: string
+  attributes: Record<string, string>
+  children: XmlElement[]
+}
+
+function decodeXml (text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+    if (entity.startsWith('#x')) { return String.fromCodePoint(parseInt(entity.substring(2), 16)); }
+    if (entity.startsWith('#')) { return String.fromCodePoint(parseInt(entity.substring(1), 10)); }
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'' }[entity]!;
+  });
+}
+
+/**
+ * 解析 JetBrains 配置文件所需的最小 XML 子集：元素与属性（忽略文本、注释与声明）
+ */
+function parseXml (text: string): XmlElement {
+  const root: XmlElement = { name: '', attributes: {}, children: [] };
+  const stack = [root];
+  const tagPattern = /<!--[\s\S]*?-->|<[?!][^>]*>|<\/([\w.:-]+)\s*>|<([\w.:-]+)((?:\s+[\w.:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(text)) !== null) {
+    const [, closing, name, attributeText, selfClosing] = match;
+    if (closing) {
+      if (stack.length > 1) { stack.pop(); }
+      continue;
+    }
+    if (!name) {
+      continue;
+    }
+    const element: XmlElement = { name, attributes: {}, children: [] };
+    for (const [, key, doubleQuoted, singleQuoted] of attributeText.matchAll(/([\w.:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      element.attributes[key] = decodeXml(doubleQuoted ?? singleQuoted);
+    }
+    stack[stack.length - 1].children.push(element);
+    if (!selfClosing) {
+      stack.push(element);
+    }
+  }
+  return root;
+}
+
+function findAll (element: XmlElement, name: string): XmlElement[] {
+  return element.children.flatMap(child => child.name === name ? [child, ...findAll(child, name)] : findAll(child, name));
+}
+
+// JetBrains 的 <option name="..." value="..."/>，或包含子元素的 <option name="...">
+function option (element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find(child => child.name === 'option' && child.attributes.name === name);
+}
+
+/**
+ * 将 JetBrains 的文件 URL 转换为路径：$PROJECT_DIR$ 下的文件为相对路径，其它本地文件为绝对路径；
+ * jar:// 等非本地文件返回 undefined
+ */
+function jetBrainsPath (url: string): string | undefined {
+  const match = /^file:\/\/(.*)$/.exec(url);
+  if (!match) {
+    return undefined;
+  }
+  const location = decodeURI(match[1]);
+  const project = /^\$(PROJECT_DIR|MODULE_DIR)\$\/?(.*)$/.exec(location);
+  if (project) {
+    return project[2];
+  }
+  const home = /^\$USER_HOME\$\/?(.*)$/.exec(location);
+  if (home) {
+    return path.join(os.homedir(), home[1]);
+  }
+  return /^\/[A-Za-z]:\//.test(location) ? location.substring(1) : location;
+}
+
+// 助记符 DIGIT_1 / LETTER_A 或旧版的 1 / A
+function mnemonicOf (type: string | undefined): string | undefined {
+  const match = /^(?:DIGIT_|LETTER_)?([0-9A-Z])$/.exec(type ?? '');
+  return match ? match[1] : undefined;
+}
+
+/**
+ * JetBrains：新版 BookmarksManager 中每个 GroupState 对应一个分组，书签的行号从 0 开始；
+ * 旧版 BookmarkManager 没有分组，放入以来源命名的分组。助记符保留在标签前
+ */
+function parseJetBrains (text: string, generateId: () => string): ForeignImport {
+  const document = parseXml(text);
+  const groups: BookmarkGroup[] = [];
+  const bookmarks: Bookmark[] = [];
+  const unresolved: UnresolvedEntry[] = [];
+
+  const addBookmark = (url: string | undefined, lineText: string | undefined, description: string | undefined, type: string | undefined, groupId: string) => {
+    const file = url ? jetBrainsPath(url) : undefined;
+    if (!file) {
+      unresolved.push({ entry: url ?? description ?? '(空)', reason: url ? '不是项目中的本地文件' : '缺少文件地址' });
+      return;
+    }
+    // 没有行号的是文件或目录书签，定位到文件开头
+    const line = lineText === undefined ? 0 : Number(lineText);
+    if (!isLine(line)) {
+      unresolved.push({ entry: `${file}:${lineText}`, reason: '行号无效' });
+      return;
+    }
+    const mnemonic = mnemonicOf(type);
+    const label = description || `${path.basename(file)}:${line + 1}`;
+    bookmarks.push(createBookmark(generateId(), file, line, 0, mnemonic ? `[${mnemonic}] ${label}` : label, groupId));
+  };
+
+  for (const component of findAll(document, 'component')) {
+    if (component.attributes.name === 'BookmarksManager') {
+      findAll(component, 'GroupState').forEach((state, index) => {
+        const group = createGroup(generateId(), option(state, 'name')?.attributes.value || `JetBrains ${index + 1}`);
+        groups.push(group);
+        for (const bookmark of findAll(state, 'BookmarkState')) {
+          const attributes = new Map(findAll(bookmark, 'entry').map(entry => [entry.attributes.key, entry.attributes.value]));
+          addBookmark(
+            attributes.get('url'),
+            attributes.get('line') ?? option(bookmark, 'line')?.attributes.value,
+            option(bookmark, 'description')?.attributes.value,
+            option(bookmark, 'type')?.attributes.value,
+            group.id
+          );
+        }
+      });
+    } else if (component.attributes.name === 'BookmarkManager') {
+      const entries = findAll(component, 'bookmark');
+      if (entries.length === 0) {
+        continue;
+      }
+      const group = createGroup(generateId(), 'JetBrains');
+      groups.push(group);
+      for (const entry of entries) {
+        const { url, line, description, mnemonic } = entry.attributes;
+        addBookmark(url, line, description, mnemonic, group.id);
+      }
+    }
+  }
+
+  return { format: 'jetbrains', bundle: createBundle(bookmarks, groups), unresolved };
+}
+
+/**
+ * 对照磁盘上的文件解析导入的书签：相对路径以 projectRoot 为基准，
+ * 位于 folder 中的文件换算为相对该文件夹的路径，其它文件保存绝对路径；
+ * 文件不存在、不是文件或行号超出文件末尾的书签移到 unresolved 中
+ */
+export function resolveForeignBookmarks (
+  result: ForeignImport,
+  projectRoot: string,
+  folder?: { name: string, root: string }
+): ForeignImport {
+  const unresolved = [...result.unresolved];
+  const lineCounts = new Map<string, number | undefined>();
+  const lineCountOf = (file: string) => {
+    if (!lineCounts.has(file)) {
+      try {
+        lineCounts.set(file, fs.statSync(file).isFile() ? splitLines(fs.readFileSync(file, 'utf8')).length : undefined);
+      } catch {
+        lineCounts.set(file, undefined);
+      }
+    }
+    return lineCounts.get(file);
+  };
+
+  const bookmarks: Bookmark[] = [];
+  for (const bookmark of result.bundle.bookmarks) {
+    const absolute = path.resolve(projectRoot, bookmark.file);
+    const entry = `${bookmark.file}:${bookmark.line + 1}`;
+    const lineCount = lineCountOf(absolute);
+    if (lineCount === undefined) {
+      unresolved.push({ entry, reason: fs.existsSync(absolute) ? '不是文件' : '文件不存在' });
+      continue;
+    }
+    if (bookmark.line >= lineCount) {
+      unresolved.push({ entry, reason: `超出文件末尾（共 ${lineCount} 行）` });
+      continue;
+    }
+    const relative = folder ? path.relative(folder.root, absolute) : '';
+    const inFolder = folder && relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+    bookmarks.push({
+      ...bookmark,
+      file: inFolder ? relative.split(path.sep).join('/') : absolute,
+      workspaceFolder: folder?.name
+    });
+  }
+
+  // 不再包含任何书签的分组不导入
+  const usedGroups = new Set(bookmarks.map(b => b.groupId));
+  const groups = result.bundle.groups.filter(g => usedGroups.has(g.id)).map(g => ({ ...g, workspaceFolder: folder?.name }));
+  return { ...result, bundle: { ...result.bundle, bookmarks, groups }, unresolved };
+}
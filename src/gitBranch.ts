@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * 读取工作区文件夹当前所在的 Git 分支，用于按分支显示书签。
+ * 直接读取 .git/HEAD（包括 git worktree 中 .git 为文件的情况），不依赖 Git 扩展是否已激活
+ */
+
+/**
+ * 解析 HEAD 文件的内容：指向分支时返回分支名，分离头指针（detached HEAD）时返回 undefined
+ */
+export function parseHead (content: string): string | undefined {
+  const match = /^ref:\s*refs\/heads\/(.+)$/m.exec(content.trim());
+  return match ? match[1].trim() : undefined;
+}
+
+/**
+ * 文件夹所属仓库的 git 目录；文件夹不是仓库的根目录或不是 git 仓库时返回 undefined
+ */
+export function findGitDir (folderPath: string): string | undefined {
+  const dotGit = path.join(folderPath, '.git');
+  try {
+    const stat = fs.statSync(dotGit);
+    if (stat.isDirectory()) {
+      return dotGit;
+    }
+    // git worktree 与子模块中 .git 是一个指向实际 git 目录的文件
+    const match = /^gitdir:\s*(.+)$/m.exec(fs.readFileSync(dotGit, 'utf-8'));
+    return match ? path.resolve(folderPath, match[1].trim()) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function readBranch (folderPath: string): Promise<string | undefined> {
+  const gitDir = findGitDir(folderPath);
+  if (!gitDir) {
+    return undefined;
+  }
+  try {
+    return parseHead(await fs.promises.readFile(path.join(gitDir, 'HEAD'), 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 从 packed-refs 的内容中取出本地分支名
+ */
+export function parsePackedBranches (content: string): string[] {
+  return content.split(/\r?\n/)
+    .map(line => /^[0-9a-f]+ refs\/heads\/(.+)$/.exec(line.trim())?.[1])
+    .filter((branch): branch is string => !!branch);
+}
+
+/**
+ * 仓库中的本地分支（refs/heads 下的文件与 packed-refs），按名称排序
+ */
+export async function listBranches (folderPath: string): Promise<string[]> {
+  const gitDir = findGitDir(folderPath);
+  if (!gitDir) {
+    return [];
+  }
+  // worktree 的分支保存在主仓库的 git 目录中
+  let commonDir = gitDir;
+  try {
+    commonDir = path.resolve(gitDir, (await fs.promises.readFile(path.join(gitDir, 'commondir'), 'utf-8')).trim());
+  } catch {
+    // 不是 worktree
+  }
+
+  const branches = new Set<string>();
+  const walk = async (dir: string, prefix: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        await walk(path.join(dir, entry.name), `${prefix}${entry.name}/`);
+      } else {
+        branches.add(`${prefix}${entry.name}`);
+      }
+    }
+  };
+  await walk(path.join(commonDir, 'refs', 'heads'), '');
+  try {
+    parsePackedBranches(await fs.promises.readFile(path.join(commonDir, 'packed-refs'), 'utf-8')).forEach(b => branches.add(b));
+  } catch {
+    // 没有 packed-refs
+  }
+  return Array.from(branches).sort();
+}
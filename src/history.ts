@@ -0,0 +1,200 @@
+/**
+ * 书签与分组修改的撤销/重做历史。
+ * 每一步修改记录为一个命令（HistoryEntry）：受影响的书签与分组修改前后的副本。
+ * 撤销时只还原这一步中改变过的字段，之后因编辑文件而变化的行号等其它字段保持不变；
+ * 树视图中的顺序由 priority 与创建时间决定，因此不需要记录列表中的位置。
+ */
+
+// 历史中记录的书签或分组；除 id 外的字段逐个比较与还原
+export interface Entity {
+  id: string
+}
+
+export interface HistoryState<B extends Entity = Entity, G extends Entity = Entity> {
+  bookmarks: B[]
+  groups: G[]
+}
+
+type EntityKind = keyof HistoryState;
+
+interface EntityChange<K extends EntityKind, T extends Entity> {
+  kind: K
+  id: string
+  before?: T   // undefined 表示这一步中新增
+  after?: T    // undefined 表示这一步中删除
+}
+
+export interface HistoryEntry<B extends Entity = Entity, G extends Entity = Entity> {
+  label: string
+  changes: (EntityChange<'bookmarks', B> | EntityChange<'groups', G>)[]
+}
+
+export interface HistorySnapshot<B extends Entity = Entity, G extends Entity = Entity> {
+  bookmarks: Map<string, B>
+  groups: Map<string, G>
+}
+
+export function takeSnapshot<B extends Entity, G extends Entity> (state: HistoryState<B, G>): HistorySnapshot<B, G> {
+  return {
+    bookmarks: new Map(state.bookmarks.map(e => [e.id, structuredClone(e)])),
+    groups: new Map(state.groups.map(e => [e.id, structuredClone(e)]))
+  };
+}
+
+function sameValue (a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function changedKeys<T extends Entity> (a: T, b: T): (keyof T)[] {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof T)[]);
+  return Array.from(keys).filter(key => !sameValue(a[key], b[key]));
+}
+
+// 按书签与分组拆分一步中的修改
+function changesOf<B extends Entity, G extends Entity> (entry: HistoryEntry<B, G>): {
+  bookmarks: EntityChange<'bookmarks', B>[]
+  groups: EntityChange<'groups', G>[]
+} {
+  return {
+    bookmarks: entry.changes.filter((change): change is EntityChange<'bookmarks', B> => change.kind === 'bookmarks'),
+    groups: entry.changes.filter((change): change is EntityChange<'groups', G> => change.kind === 'groups')
+  };
+}
+
+function diffKind<K extends EntityKind, T extends Entity> (kind: K, before: Map<string, T>, after: Map<string, T>): EntityChange<K, T>[] {
+  const changes: EntityChange<K, T>[] = [];
+  const ids = new Set([...before.keys(), ...after.keys()]);
+  ids.forEach(id => {
+    const was = before.get(id);
+    const now = after.get(id);
+    if (!was || !now || changedKeys(was, now).length > 0) {
+      changes.push({ kind, id, before: was, after: now });
+    }
+  });
+  return changes;
+}
+
+/**
+ * 比较修改前后的快照，生成一步历史；没有任何变化时返回 undefined
+ */
+export function diffSnapshots<B extends Entity, G extends Entity> (
+  label: string,
+  before: HistorySnapshot<B, G>,
+  after: HistorySnapshot<B, G>
+): HistoryEntry<B, G> | undefined {
+  const changes = [
+    ...diffKind('bookmarks', before.bookmarks, after.bookmarks),
+    ...diffKind('groups', before.groups, after.groups)
+  ];
+  return changes.length > 0 ? { label, changes } : undefined;
+}
+
+/**
+ * 将连续的多步合并为一步（例如批量操作），每个条目取最早的修改前状态与最后的修改后状态
+ */
+export function mergeEntries<B extends Entity, G extends Entity> (label: string, entries: HistoryEntry<B, G>[]): HistoryEntry<B, G> | undefined {
+  const merged = [
+    ...mergeKind(entries.flatMap(entry => changesOf(entry).bookmarks)),
+    ...mergeKind(entries.flatMap(entry => changesOf(entry).groups))
+  ];
+  return merged.length > 0 ? { label, changes: merged } : undefined;
+}
+
+function mergeKind<K extends EntityKind, T extends Entity> (changes: EntityChange<K, T>[]): EntityChange<K, T>[] {
+  const byId = new Map<string, EntityChange<K, T>>();
+  changes.forEach(change => {
+    const first = byId.get(change.id);
+    byId.set(change.id, { ...change, before: first ? first.before : change.before });
+  });
+  // 新增后又删除、或修改后又改回的条目不需要记录
+  return Array.from(byId.values()).filter(change =>
+    change.before ? !change.after || changedKeys(change.before, change.after).length > 0 : change.after);
+}
+
+/**
+ * 撤销（undo）或重做（redo）一步，返回新的书签与分组列表
+ */
+export function applyEntry<B extends Entity, G extends Entity> (
+  state: HistoryState<B, G>,
+  entry: HistoryEntry<B, G>,
+  direction: 'undo' | 'redo'
+): HistoryState<B, G> {
+  const changes = changesOf(entry);
+  return {
+    bookmarks: applyKind(state.bookmarks, changes.bookmarks, direction),
+    groups: applyKind(state.groups, changes.groups, direction)
+  };
+}
+
+function applyKind<T extends Entity> (items: T[], changes: EntityChange<EntityKind, T>[], direction: 'undo' | 'redo'): T[] {
+  changes.forEach(change => {
+    const from = direction === 'undo' ? change.after : change.before;
+    const to = direction === 'undo' ? change.before : change.after;
+    const index = items.findIndex(e => e.id === change.id);
+    if (!to) {
+      items = items.filter(e => e.id !== change.id);
+    } else if (index === -1) {
+      items = [...items, structuredClone(to)];
+    } else if (from) {
+      // 只还原这一步中改变过的字段
+      const current = { ...items[index] };
+      changedKeys(from, to).forEach(key => {
+        if (to[key] === undefined) {
+          delete current[key];
+        } else {
+          current[key] = structuredClone(to[key]);
+        }
+      });
+      items = items.map((e, i) => i === index ? current : e);
+    }
+  });
+  return items;
+}
+
+// 最多保留的历史步数
+const MAX_HISTORY = 100;
+
+export class History<B extends Entity = Entity, G extends Entity = Entity> {
+  private past: HistoryEntry<B, G>[] = [];
+  private future: HistoryEntry<B, G>[] = [];
+
+  public push (entry: HistoryEntry<B, G>): void {
+    this.past.push(entry);
+    this.future = [];
+    if (this.past.length > MAX_HISTORY) {
+      this.past.shift();
+    }
+  }
+
+  /**
+   * 最近的一步（下一次撤销的对象）
+   */
+  public peek (): HistoryEntry<B, G> | undefined {
+    return this.past[this.past.length - 1];
+  }
+
+  public peekRedo (): HistoryEntry<B, G> | undefined {
+    return this.future[this.future.length - 1];
+  }
+
+  public undo (): HistoryEntry<B, G> | undefined {
+    const entry = this.past.pop();
+    if (entry) {
+      this.future.push(entry);
+    }
+    return entry;
+  }
+
+  public redo (): HistoryEntry<B, G> | undefined {
+    const entry = this.future.pop();
+    if (entry) {
+      this.past.push(entry);
+    }
+    return entry;
+  }
+
+  public clear (): void {
+    this.past = [];
+    this.future = [];
+  }
+}
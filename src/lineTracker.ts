@@ -0,0 +1,105 @@
+/**
+ * 书签位置跟踪：根据文档的文本变更推算书签的新位置。
+ * 这里只依赖纯数据结构，便于在 BookmarkManager 之外单独测试。
+ */
+
+export interface TrackedPosition {
+  line: number
+  column: number
+}
+
+// 以下两个结构与 vscode.Position / vscode.TextDocumentContentChangeEvent 兼容
+export interface TextPosition {
+  line: number
+  character: number
+}
+
+export interface TextChange {
+  range: {
+    start: TextPosition
+    end: TextPosition
+  }
+  text: string
+}
+
+function isBefore (a: TrackedPosition, b: TextPosition): boolean {
+  return a.line < b.line || (a.line === b.line && a.column < b.character);
+}
+
+/**
+ * 将单个文本变更应用到一个位置上：
+ * - 位于变更之前：保持不变
+ * - 位于被替换（删除）的区域内：收缩到变更起点
+ * - 位于变更之后：按插入/删除的行数与列数平移
+ */
+export function shiftPosition (pos: TrackedPosition, change: TextChange): TrackedPosition {
+  const { start, end } = change.range;
+
+  if (isBefore(pos, start)) {
+    return pos;
+  }
+
+  // 位于 [start, end) 内说明所在区域被删除；
+  // 起点处的纯插入（start === end）会落到下面的平移分支，例如在书签行首按回车时书签随代码下移
+  if (isBefore(pos, end)) {
+    return { line: start.line, column: start.character };
+  }
+
+  const insertedLines = change.text.split(/\r\n|\r|\n/);
+  const addedLineCount = insertedLines.length - 1;
+  const lastLineLength = insertedLines[insertedLines.length - 1].length;
+  const newEndLine = start.line + addedLineCount;
+
+  if (pos.line === end.line) {
+    // 与变更终点同一行：列也需要平移
+    const newEndColumn = addedLineCount === 0 ? start.character + lastLineLength : lastLineLength;
+    return { line: newEndLine, column: newEndColumn + (pos.column - end.character) };
+  }
+
+  return { line: pos.line + (newEndLine - end.line), column: pos.column };
+}
+
+/**
+ * 依次应用一次编辑事件中的所有变更
+ */
+export function applyChanges (pos: TrackedPosition, changes: readonly TextChange[]): TrackedPosition {
+  return changes.reduce((current, change) => shiftPosition(current, change), pos);
+}
+
+/**
+ * 书签的位置：起点，以及范围书签的终点（不早于起点）
+ */
+export interface TrackedRange extends TrackedPosition {
+  endLine?: number
+  endColumn?: number
+}
+
+/**
+ * 将一次编辑事件应用到书签范围上：起点与终点分别平移（平移保持先后顺序），整个范围被删除时收缩到删除起点
+ */
+export function applyChangesToRange (range: TrackedRange, changes: readonly TextChange[]): TrackedRange {
+  const start = applyChanges({ line: range.line, column: range.column }, changes);
+  if (range.endLine === undefined) {
+    return start;
+  }
+  const end = applyChanges({ line: range.endLine, column: range.endColumn ?? 0 }, changes);
+  return { ...start, endLine: end.line, endColumn: end.column };
+}
+
+/**
+ * 选中范围对应的书签终点：空的选择没有终点（书签为一个位置）；
+ * 按整行选中时终点位于下一行行首，收回到上一行行尾。lineLength 返回文档中指定行的长度
+ */
+export function rangeEndOf (
+  start: TextPosition,
+  end: TextPosition,
+  lineLength: (line: number) => number
+): Pick<TrackedRange, 'endLine' | 'endColumn'> {
+  if (start.line === end.line && start.character === end.character) {
+    return {};
+  }
+  if (end.character === 0 && end.line > start.line) {
+    return { endLine: end.line - 1, endColumn: lineLength(end.line - 1) };
+  }
+  return { endLine: end.line, endColumn: end.character };
+}
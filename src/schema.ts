@@ -0,0 +1,182 @@
+/**
+ * 书签数据的格式版本与迁移。
+ * 存储中的 bookmarks / bookmarkGroups 保存为带版本号的信封 { schemaVersion, items }；
+ * 版本 1 为早期直接保存的数组（没有版本号）。加载时按顺序执行迁移链，升级到当前版本。
+ */
+
+export const CURRENT_SCHEMA_VERSION = 2;
+
+export type CollectionKind = 'bookmarks' | 'bookmarkGroups';
+
+export interface VersionedCollection<T> {
+  schemaVersion: number
+  items: T[]
+}
+
+// 存储中可能出现的格式：当前的信封，或旧版本直接保存的数组
+export type StoredCollection<T> = VersionedCollection<T> | T[];
+
+export interface MigrationResult<T> {
+  items: T[]
+  fromVersion: number
+  migrated: boolean   // 是否执行过迁移（需要备份并写回）
+}
+
+// 迁移前的条目：只确定有 id，其它字段都需要检查类型
+type StoredItem = { id: string } & Record<string, unknown>;
+
+function isItem (value: unknown): value is StoredItem {
+  return !!value && typeof value === 'object' && typeof (value as StoredItem).id === 'string';
+}
+
+// 缺少创建时间时使用当前时间，无法解析时使用 1970-01-01
+function toIsoDate (value: unknown): string {
+  const date = value === undefined || value === null
+    ? new Date()
+    : new Date(typeof value === 'number' ? value : String(value));
+  return isNaN(date.getTime()) ? new Date(0).toISOString() : date.toISOString();
+}
+
+interface Migration {
+  from: number
+  description: string
+  migrate: (items: unknown[], kind: CollectionKind) => unknown[]
+}
+
+/**
+ * 迁移链，按 from 升序排列；每一步把数据从 from 升级到 from + 1。
+ * 新增字段或修改格式时，在末尾追加一步并增加 CURRENT_SCHEMA_VERSION。
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    from: 1,
+    description: '补全旧数据中缺失的字段，统一时间格式',
+    migrate: (items, kind) => items
+      .filter(isItem)
+      .map(item => {
+        const normalized = {
+          ...item,
+          created: toIsoDate(item.created),
+          priority: typeof item.priority === 'number' ? item.priority : 0
+        };
+        if (kind === 'bookmarkGroups') {
+          return { ...normalized, isDefault: !!item.isDefault };
+        }
+        return {
+          ...normalized,
+          line: typeof item.line === 'number' ? item.line : 0,
+          column: typeof item.column === 'number' ? item.column : 0
+        };
+      })
+  }
+];
+
+/**
+ * 存储中的数据版本高于当前插件支持的版本（由更新的插件写入），拒绝加载以免覆盖
+ */
+export class SchemaVersionError extends Error {
+  constructor (public readonly version: number) {
+    super(`Unsupported bookmark schema version ${version} (current: ${CURRENT_SCHEMA_VERSION})`);
+  }
+}
+
+export function isVersionedCollection (value: unknown): value is VersionedCollection<unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+    && typeof (value as VersionedCollection<unknown>).schemaVersion === 'number'
+    && Array.isArray((value as VersionedCollection<unknown>).items);
+}
+
+export function toVersionedCollection<T> (items: T[]): VersionedCollection<T> {
+  return { schemaVersion: CURRENT_SCHEMA_VERSION, items };
+}
+
+/**
+ * 读取存储中的数据并迁移到当前版本；没有数据时返回 undefined。
+ * T 为当前版本的条目类型：迁移链只处理未知格式的条目，已是当前版本的数据按 T 返回
+ */
+export function migrateCollection<T> (kind: CollectionKind, stored: unknown): MigrationResult<T> | undefined {
+  if (stored === undefined || stored === null) {
+    return undefined;
+  }
+
+  let version: number;
+  let items: unknown[];
+  if (Array.isArray(stored)) {
+    version = 1;
+    items = stored;
+  } else if (isVersionedCollection(stored)) {
+    version = stored.schemaVersion;
+    items = stored.items;
+  } else {
+    throw new Error(`Invalid stored ${kind} data`);
+  }
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new SchemaVersionError(version);
+  }
+
+  const fromVersion = version;
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const step = MIGRATIONS.find(m => m.from === version);
+    if (!step) {
+      throw new Error(`No migration from bookmark schema version ${version}`);
+    }
+    items = step.migrate(items, kind);
+    version++;
+  }
+
+  return { items: items as T[], fromVersion, migrated: fromVersion !== CURRENT_SCHEMA_VERSION };
+}
+
+function itemsOf (value: unknown): StoredItem[] | undefined {
+  const items: unknown = isVersionedCollection(value) ? value.items : value;
+  return Array.isArray(items) && items.every(isItem) ? items : undefined;
+}
+
+/**
+ * 按 id 三方合并同一集合的两份修改：以外部版本为基础，应用本地相对于 base 的新增、修改与删除。
+ * 同一条目在两边都被修改时以本地为准，并在 conflicts 中返回其 id；无法按 id 合并时返回 undefined
+ */
+export function mergeCollections (
+  base: unknown,
+  external: unknown,
+  local: unknown
+): { merged: unknown, conflicts: string[] } | undefined {
+  const externalItems = itemsOf(external);
+  const localItems = itemsOf(local);
+  const baseItems = base === undefined ? [] : itemsOf(base);
+  if (!externalItems || !localItems || !baseItems) {
+    return undefined;
+  }
+
+  const baseById = new Map(baseItems.map(item => [item.id, JSON.stringify(item)]));
+  const externalById = new Map(externalItems.map(item => [item.id, JSON.stringify(item)]));
+  const localIds = new Set(localItems.map(item => item.id));
+  const conflicts: string[] = [];
+
+  // 本地删除的条目（外部未修改时）从结果中移除
+  const merged: { id: string }[] = externalItems.filter(item =>
+    localIds.has(item.id) || !baseById.has(item.id) || baseById.get(item.id) !== externalById.get(item.id)
+  );
+  for (const item of localItems) {
+    const serialized = JSON.stringify(item);
+    if (baseById.get(item.id) === serialized) {
+      continue;   // 本地未修改
+    }
+    const index = merged.findIndex(m => m.id === item.id);
+    if (index === -1) {
+      merged.push(item);
+      continue;
+    }
+    const externalSerialized = externalById.get(item.id);
+    if (baseById.has(item.id) && externalSerialized !== baseById.get(item.id) && externalSerialized !== serialized) {
+      conflicts.push(item.id);
+    }
+    merged[index] = item;
+  }
+
+  return {
+    merged: isVersionedCollection(local) ? { ...local, items: merged } : merged,
+    conflicts
+  };
+}
@@ -0,0 +1,461 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import initSqlJs = require('sql.js');
+import type { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import { backupPath } from './storage';
+import type { IStorage, StorageConfig } from './storage';
+import { isVersionedCollection } from './schema';
+
+type ColumnType = 'text' | 'integer' | 'boolean' | 'date';
+
+interface ColumnMapping {
+  field: string
+  column: string
+  type: ColumnType
+}
+
+interface TableMapping {
+  table: string
+  columns: ColumnMapping[]
+}
+
+/**
+ * 书签与分组各自存放在独立的表中；未在 columns 中声明的字段（例如内容锚点）
+ * 以 JSON 形式存放在 extra 列，新增字段时无需修改表结构。
+ * 带后缀的 key（例如多根工作区中的 `bookmarks:文件夹名`）存放在同一张表中，以 collection 列区分。
+ * 其它 key 仍以 JSON 形式存放在 kv 表中。
+ */
+const TABLES: Record<string, TableMapping> = {
+  bookmarks: {
+    table: 'bookmarks',
+    columns: [
+      { field: 'id', column: 'id', type: 'text' },
+      { field: 'label', column: 'label', type: 'text' },
+      { field: 'file', column: 'file', type: 'text' },
+      { field: 'line', column: 'line', type: 'integer' },
+      { field: 'column', column: 'col', type: 'integer' },
+      { field: 'description', column: 'description', type: 'text' },
+      { field: 'created', column: 'created', type: 'date' },
+      { field: 'groupId', column: 'group_id', type: 'text' },
+      { field: 'priority', column: 'priority', type: 'integer' }
+    ]
+  },
+  bookmarkGroups: {
+    table: 'bookmark_groups',
+    columns: [
+      { field: 'id', column: 'id', type: 'text' },
+      { field: 'name', column: 'name', type: 'text' },
+      { field: 'isDefault', column: 'is_default', type: 'boolean' },
+      { field: 'created', column: 'created', type: 'date' },
+      { field: 'parentId', column: 'parent_id', type: 'text' },
+      { field: 'priority', column: 'priority', type: 'integer' }
+    ]
+  }
+};
+
+/**
+ * 将 key 映射到表与 collection：`bookmarks` → (bookmarks, '')，`bookmarks:app` → (bookmarks, 'app')
+ */
+function resolveKey (key: string): { mapping: TableMapping, collection: string } | undefined {
+  const separator = key.indexOf(':');
+  const base = separator === -1 ? key : key.slice(0, separator);
+  const mapping = Object.prototype.hasOwnProperty.call(TABLES, base) ? TABLES[base] : undefined;
+  return mapping && { mapping, collection: separator === -1 ? '' : key.slice(separator + 1) };
+}
+
+const SQL_TYPES: Record<ColumnType, string> = {
+  text: 'TEXT',
+  integer: 'INTEGER',
+  boolean: 'INTEGER',
+  date: 'TEXT'
+};
+
+function hasTable (db: Database, table: string): boolean {
+  return db.exec('SELECT 1 FROM sqlite_master WHERE type = \'table\' AND name = ?', [table]).length > 0;
+}
+
+function hasColumn (db: Database, table: string, column: string): boolean {
+  const result = db.exec(`PRAGMA table_info(${table})`);
+  return (result[0]?.values ?? []).some(row => row[1] === column);
+}
+
+/**
+ * 数据库表结构的迁移，按顺序执行；PRAGMA user_version 记录已执行的步数。
+ * 每一步只处理已存在的旧表，缺失的表在迁移结束后按最新结构创建。
+ */
+const DB_MIGRATIONS: ((db: Database) => void)[] = [
+  // 1: 书签与分组表加入 collection 列（多根工作区中各文件夹的数据存放在同一张表）
+  db => {
+    for (const mapping of Object.values(TABLES)) {
+      if (!hasTable(db, mapping.table) || hasColumn(db, mapping.table, 'collection')) {
+        continue;
+      }
+      const columns = [...mapping.columns.map(c => c.column), 'sort_order', 'extra'].join(', ');
+      db.run(`ALTER TABLE ${mapping.table} RENAME TO ${mapping.table}_old`);
+      createTable(db, mapping);
+      db.run(`INSERT INTO ${mapping.table} (collection, ${columns}) SELECT '', ${columns} FROM ${mapping.table}_old`);
+      db.run(`DROP TABLE ${mapping.table}_old`);
+    }
+  },
+  // 2: collections 表记录各 key 的数据格式版本
+  db => {
+    if (hasTable(db, 'collections') && !hasColumn(db, 'collections', 'schema_version')) {
+      db.run('ALTER TABLE collections ADD COLUMN schema_version INTEGER');
+    }
+  }
+];
+
+// 打开数据库文件的内容；sql.js 在第一次查询时才检查文件格式，因此打开后立即查询一次
+function openDatabase (SQL: SqlJsStatic, data: Uint8Array): Database {
+  const db = new SQL.Database(data);
+  try {
+    db.exec('SELECT count(*) FROM sqlite_master');
+  } catch (e) {
+    db.close();
+    throw e;
+  }
+  return db;
+}
+
+function createTable (db: Database, mapping: TableMapping): void {
+  const columns = mapping.columns.map(c => `${c.column} ${SQL_TYPES[c.type]}`);
+  db.run(
+    `CREATE TABLE IF NOT EXISTS ${mapping.table} (collection TEXT NOT NULL DEFAULT '', ${columns.join(', ')}, ` +
+    'sort_order INTEGER NOT NULL, extra TEXT, PRIMARY KEY (collection, id))'
+  );
+}
+
+/**
+ * SQLite 存储：基于 sql.js（WASM），无需本地编译。
+ * 每次 save 只写入有变化的行；数据库文件的写入是异步的，
+ * 连续多次修改会合并为一次写入，不会阻塞扩展主线程。
+ */
+export class SqliteStorage<T> implements IStorage<T> {
+  private filePath: string;
+  private db: Promise<Database>;
+  // 每个 key 上次写入的行（序列化后），用于计算增量
+  private rowCache = new Map<string, Map<string, string>>();
+  private writing: Promise<void> | undefined;
+  private writePending = false;
+
+  constructor (private config: StorageConfig, private context: vscode.ExtensionContext) {
+    const projectName = vscode.workspace.name || 'default';
+    this.filePath = config.location
+      ? path.resolve(config.location)
+      : path.join(require('os').homedir(), '.vs_bookmark', projectName, 'storage.sqlite');
+
+    try {
+      console.log(`[bookmark] SqliteStorage initialized at: ${this.filePath}`);
+    } catch (e) {
+      // ignore
+    }
+
+    this.db = this.open();
+  }
+
+  private async open (): Promise<Database> {
+    const SQL = await initSqlJs();
+
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      try {
+        fs.mkdirSync(dir, { recursive: true });
+      } catch (e) {
+        console.error('Failed to create storage directory:', dir, e);
+        try { vscode.window.showErrorMessage('无法创建书签存储目录: ' + dir); } catch {};
+      }
+    }
+
+    let db: Database;
+    if (!fs.existsSync(this.filePath)) {
+      db = new SQL.Database();
+    } else {
+      try {
+        db = openDatabase(SQL, await fs.promises.readFile(this.filePath));
+      } catch (e) {
+        db = await this.recover(SQL, e);
+      }
+    }
+
+    await this.migrate(db);
+
+    db.run('CREATE TABLE IF NOT EXISTS kv (key TEXT PRIMARY KEY, value TEXT NOT NULL)');
+    // 记录以表存储的 key 是否被保存过（用于 listKeys）及其数据格式版本
+    db.run('CREATE TABLE IF NOT EXISTS collections (key TEXT PRIMARY KEY, schema_version INTEGER)');
+    for (const mapping of Object.values(TABLES)) {
+      createTable(db, mapping);
+    }
+    db.run(`PRAGMA user_version = ${DB_MIGRATIONS.length}`);
+    return db;
+  }
+
+  /**
+   * 数据库文件无法读取：保留损坏的文件，并询问是否从最近的有效备份恢复，而不是直接以空数据库覆盖
+   */
+  private async recover (SQL: SqlJsStatic, error: unknown): Promise<Database> {
+    console.error('Failed to load sqlite storage file:', error);
+    const corrupt = backupPath(this.filePath, 'corrupt');
+    await fs.promises.copyFile(this.filePath, corrupt);
+
+    let latest: { file: string, db: Database } | undefined;
+    for (const file of this.listBackupFiles()) {
+      try {
+        latest = { file, db: openDatabase(SQL, await fs.promises.readFile(file)) };
+        break;
+      } catch {
+        // 备份同样无法读取时尝试更早的备份
+      }
+    }
+    if (!latest) {
+      try { vscode.window.showErrorMessage(`SQLite 书签数据库已损坏且没有可用的备份，将以空数据库启动。损坏的文件已保留在: ${corrupt}`); } catch {}
+      return new SQL.Database();
+    }
+
+    const restore = '从备份恢复';
+    const choice = await vscode.window.showErrorMessage(
+      `SQLite 书签数据库已损坏: ${this.filePath}`,
+      {
+        modal: true,
+        detail: `可以从最近的有效备份（${fs.statSync(latest.file).mtime.toLocaleString()}）恢复。损坏的文件已保留在: ${corrupt}`
+      },
+      restore,
+      '以空数据库启动'
+    );
+    if (choice !== restore) {
+      latest.db.close();
+      return new SQL.Database();
+    }
+    this.schedulePersist();
+    vscode.window.showInformationMessage('已从备份恢复书签数据');
+    return latest.db;
+  }
+
+  // 与数据库文件放在一起的备份（损坏文件的备份除外），最新的在前
+  private listBackupFiles (): string[] {
+    const dir = path.dirname(this.filePath);
+    const prefix = `${path.basename(this.filePath)}.`;
+    return fs.readdirSync(dir)
+      .filter(name => name.startsWith(prefix) && name.endsWith('.bak') && !name.startsWith(`${prefix}corrupt-`))
+      .map(name => ({ file: path.join(dir, name), time: fs.statSync(path.join(dir, name)).mtime.getTime() }))
+      .sort((a, b) => b.time - a.time)
+      .map(b => b.file);
+  }
+
+  /**
+   * 执行尚未执行的表结构迁移；迁移前先备份数据库文件
+   */
+  private async migrate (db: Database): Promise<void> {
+    const version = Number(db.exec('PRAGMA user_version')[0]?.values[0]?.[0] ?? 0);
+    if (version >= DB_MIGRATIONS.length || !hasTable(db, 'collections')) {
+      return;
+    }
+
+    const target = backupPath(this.filePath, `db-v${version}`);
+    await fs.promises.writeFile(target, db.export());
+    try { console.log(`[bookmark] Backed up sqlite storage to ${target} before migration`); } catch {}
+
+    db.run('BEGIN');
+    try {
+      DB_MIGRATIONS.slice(version).forEach(step => step(db));
+      db.run('COMMIT');
+    } catch (e) {
+      db.run('ROLLBACK');
+      throw e;
+    }
+    this.schedulePersist();
+  }
+
+  private toRow (mapping: TableMapping, item: Record<string, unknown>, index: number): SqlValue[] {
+    const known = new Set(mapping.columns.map(c => c.field));
+    const extra: Record<string, unknown> = {};
+    Object.keys(item).forEach(field => {
+      if (!known.has(field) && item[field] !== undefined) {
+        extra[field] = item[field];
+      }
+    });
+
+    const values = mapping.columns.map(c => {
+      const value = item[c.field];
+      if (value === undefined || value === null) { return null; }
+      switch (c.type) {
+        case 'boolean':
+          return value ? 1 : 0;
+        case 'date':
+          return value instanceof Date ? value.toISOString() : String(value);
+        case 'integer':
+          return Number(value);
+        default:
+          return String(value);
+      }
+    });
+    values.push(index, Object.keys(extra).length > 0 ? JSON.stringify(extra) : null);
+    return values;
+  }
+
+  private fromRow (mapping: TableMapping, row: SqlValue[]): Record<string, unknown> {
+    const item: Record<string, unknown> = {};
+    mapping.columns.forEach((c, i) => {
+      const value = row[i];
+      if (value === null) { return; }
+      item[c.field] = c.type === 'boolean' ? value === 1 : value;
+    });
+    const extra = row[mapping.columns.length + 1];
+    return typeof extra === 'string' ? { ...JSON.parse(extra), ...item } : item;
+  }
+
+  async save (key: string, value: T): Promise<void> {
+    const db = await this.db;
+    const resolved = resolveKey(key);
+
+    if (!resolved) {
+      db.run('INSERT OR REPLACE INTO kv (key, value) VALUES (?, ?)', [key, JSON.stringify(value)]);
+      this.schedulePersist();
+      return;
+    }
+
+    const { mapping, collection } = resolved;
+    // 带版本号的信封：行存放在表中，版本号记录在 collections 表
+    const schemaVersion = isVersionedCollection(value) ? value.schemaVersion : null;
+    const items = (isVersionedCollection(value) ? value.items : Array.isArray(value) ? value : []) as Record<string, unknown>[];
+    const cache = this.getRowCache(db, key, mapping, collection);
+    const next = new Map<string, string>();
+
+    const columnNames = ['collection', ...mapping.columns.map(c => c.column), 'sort_order', 'extra'];
+    const placeholders = columnNames.map(() => '?').join(', ');
+
+    db.run('BEGIN');
+    try {
+      const upsert = db.prepare(`INSERT OR REPLACE INTO ${mapping.table} (${columnNames.join(', ')}) VALUES (${placeholders})`);
+      items.forEach((item, index) => {
+        const row = this.toRow(mapping, item, index);
+        const id = String(item.id);
+        const serialized = JSON.stringify(row);
+        next.set(id, serialized);
+        if (cache.get(id) !== serialized) {
+          upsert.run([collection, ...row]);
+        }
+      });
+      upsert.free();
+
+      const remove = db.prepare(`DELETE FROM ${mapping.table} WHERE collection = ? AND id = ?`);
+      cache.forEach((_, id) => {
+        if (!next.has(id)) {
+          remove.run([collection, id]);
+        }
+      });
+      remove.free();
+
+      db.run('INSERT OR REPLACE INTO collections (key, schema_version) VALUES (?, ?)', [key, schemaVersion]);
+      db.run('COMMIT');
+    } catch (e) {
+      db.run('ROLLBACK');
+      throw e;
+    }
+
+    this.rowCache.set(key, next);
+    this.schedulePersist();
+  }
+
+  async load (key: string): Promise<T | undefined> {
+    const db = await this.db;
+    const resolved = resolveKey(key);
+
+    if (!resolved) {
+      const result = db.exec('SELECT value FROM kv WHERE key = ?', [key]);
+      const value = result[0]?.values[0]?.[0];
+      return typeof value === 'string' ? JSON.parse(value) as T : undefined;
+    }
+
+    const collectionRow = db.exec('SELECT schema_version FROM collections WHERE key = ?', [key])[0]?.values[0];
+    if (!collectionRow) {
+      return undefined;
+    }
+
+    const { mapping, collection } = resolved;
+    const columnNames = [...mapping.columns.map(c => c.column), 'sort_order', 'extra'];
+    const result = db.exec(
+      `SELECT ${columnNames.join(', ')} FROM ${mapping.table} WHERE collection = ? ORDER BY sort_order`,
+      [collection]
+    );
+    const items = (result[0]?.values ?? []).map(row => this.fromRow(mapping, row));
+    const schemaVersion = collectionRow[0];
+    return (typeof schemaVersion === 'number' ? { schemaVersion, items } : items) as unknown as T;
+  }
+
+  async delete (key: string): Promise<void> {
+    const db = await this.db;
+    const resolved = resolveKey(key);
+    if (resolved) {
+      db.run(`DELETE FROM ${resolved.mapping.table} WHERE collection = ?`, [resolved.collection]);
+      db.run('DELETE FROM collections WHERE key = ?', [key]);
+      this.rowCache.set(key, new Map());
+    } else {
+      db.run('DELETE FROM kv WHERE key = ?', [key]);
+    }
+    this.schedulePersist();
+  }
+
+  async listKeys (): Promise<string[]> {
+    const db = await this.db;
+    const keys: string[] = [];
+    for (const result of [db.exec('SELECT key FROM collections'), db.exec('SELECT key FROM kv')]) {
+      (result[0]?.values ?? []).forEach(row => keys.push(String(row[0])));
+    }
+    return keys;
+  }
+
+  async backup (reason: string): Promise<string | undefined> {
+    const db = await this.db;
+    const target = backupPath(this.filePath, reason);
+    await fs.promises.writeFile(target, db.export());
+    try { console.log(`[bookmark] Backed up sqlite storage to ${target}`); } catch {}
+    return target;
+  }
+
+  private getRowCache (db: Database, key: string, mapping: TableMapping, collection: string): Map<string, string> {
+    let cache = this.rowCache.get(key);
+    if (!cache) {
+      cache = new Map();
+      const columnNames = [...mapping.columns.map(c => c.column), 'sort_order', 'extra'];
+      const result = db.exec(`SELECT ${columnNames.join(', ')} FROM ${mapping.table} WHERE collection = ?`, [collection]);
+      for (const row of result[0]?.values ?? []) {
+        cache.set(String(row[0]), JSON.stringify(row));
+      }
+      this.rowCache.set(key, cache);
+    }
+    return cache;
+  }
+
+  /**
+   * 异步写入数据库文件；写入过程中发生的修改会在本次写入结束后合并写入一次
+   */
+  private schedulePersist (): void {
+    if (this.writing) {
+      this.writePending = true;
+      return;
+    }
+    this.writing = this.persist().finally(() => {
+      this.writing = undefined;
+      if (this.writePending) {
+        this.writePending = false;
+        this.schedulePersist();
+      }
+    });
+  }
+
+  private async persist (): Promise<void> {
+    try {
+      const db = await this.db;
+      // 先写临时文件再重命名，避免写到一半崩溃或磁盘已满时留下残缺的数据库文件
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.promises.writeFile(tempPath, db.export());
+      await fs.promises.rename(tempPath, this.filePath);
+      try { console.log(`[bookmark] Persisted sqlite storage to ${this.filePath}`); } catch {}
+    } catch (e: unknown) {
+      console.error('Failed to write sqlite storage file:', this.filePath, e);
+      const errMsg = (e instanceof Error) ? e.message : String(e);
+      try { vscode.window.showErrorMessage('保存书签到 SQLite 数据库失败: ' + errMsg); } catch {}
+    }
+  }
+}
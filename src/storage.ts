@@ -1,6 +1,10 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { SqliteStorage } from './sqliteStorage';
+import { DatabaseStorage } from './databaseStorage';
+import { CredentialStore } from './credentials';
+import { mergeCollections } from './schema';
 
 export type StorageType = 'file' | 'sqlite' | 'database';
 
@@ -8,10 +12,17 @@ export interface StorageConfig {
   type: StorageType;
 
   // 通用配置
-  location?: string;   // 文件路径 / SQLite 文件路径
+  location?: string;   // 文件路径 / SQLite 文件路径 / 远程数据库的本地缓存路径
   dbUrl?: string;      // 数据库连接地址
-  username?: string;   // 数据库用户名
-  password?: string;   // 数据库密码
+  username?: string;   // 数据库用户名（SecretStorage 中未保存时的后备）
+  password?: string;   // 设置项中的明文密码，仅在用户确认迁移到 SecretStorage 后使用
+  backupLocation?: string; // 备份目录（file 存储），默认为存储文件所在目录下的 backups
+}
+
+export interface StorageBackup {
+  path: string
+  reason: string   // auto（自动备份）、v1（迁移前）、corrupt（损坏的文件）、before-restore 等
+  time: Date
 }
 
 export interface IStorage<T> {
@@ -19,14 +30,46 @@ export interface IStorage<T> {
   load(key: string): Promise<T | undefined>;
   delete(key: string): Promise<void>;
   listKeys(): Promise<string[]>;
+  // 备份当前的存储文件（例如数据迁移前），返回备份文件路径；没有可备份的内容时返回 undefined
+  backup(reason: string): Promise<string | undefined>;
+  // 列出可用于恢复的备份（从新到旧）并从中恢复；不支持的存储类型不实现
+  listBackups?(): Promise<StorageBackup[]>;
+  restoreBackup?(backupFile: string): Promise<void>;
+  // 存储被外部修改（其它窗口、脚本、git checkout 等）后触发，内存中的数据已更新为外部的内容
+  onDidChange?: vscode.Event<void>;
+}
+
+/**
+ * 备份文件路径：与原文件放在同一目录，文件名中带上原因与时间戳
+ */
+export function backupPath(filePath: string, reason: string): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return `${filePath}.${reason}-${timestamp}.bak`;
 }
 
+// 自动备份的间隔与保留数量（仅 file 存储）
+const AUTO_BACKUP_INTERVAL = 10 * 60 * 1000;
+const MAX_AUTO_BACKUPS = 10;
+// 合并短时间内的多次文件变化事件（例如写临时文件再重命名）
+const WATCH_DEBOUNCE = 200;
+
 /**
- * 文件存储：写 JSON 文件
+ * 文件存储：写 JSON 文件。
+ * 写入时先写临时文件再重命名，避免写到一半崩溃留下残缺的文件；
+ * 每隔一段时间在覆盖前保留一份备份（最多 MAX_AUTO_BACKUPS 份），文件损坏时可以从备份恢复。
+ * 监听文件的外部修改，更新内存中的数据并通知使用方，避免用过期的数据覆盖其它窗口的修改。
  */
 class FileStorage<T> implements IStorage<T> {
   private filePath: string;
+  private backupDir: string;
   private data: Record<string, T> = {};
+  private ready: Promise<void> = Promise.resolve();
+  private lastAutoBackup = 0;
+  // 最近一次读取或写入的文件内容，用于区分外部修改与自己的写入
+  private lastContent: string | undefined;
+  private watchTimer: NodeJS.Timeout | undefined;
+  private onDidChangeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.onDidChangeEmitter.event;
 
   constructor(private config: StorageConfig, private context: vscode.ExtensionContext) {
     // 如果没传 location，就存到插件的 globalStorageUri 下
@@ -36,6 +79,9 @@ class FileStorage<T> implements IStorage<T> {
       : path.join(require('os').homedir(), '.vs_bookmark', projectName, 'storage.json');
 
     this.filePath = basePath;
+    this.backupDir = config.backupLocation
+      ? path.resolve(config.backupLocation)
+      : path.join(path.dirname(this.filePath), 'backups');
 
     // expose storage path for debugging
     try {
@@ -55,21 +101,152 @@ class FileStorage<T> implements IStorage<T> {
       }
     }
 
+    const autoBackups = this.listBackupsSync().filter(b => b.reason === 'auto');
+    this.lastAutoBackup = autoBackups.length > 0 ? autoBackups[0].time.getTime() : 0;
+
     // 初始化时加载数据
     if (fs.existsSync(this.filePath)) {
       try {
         const content = fs.readFileSync(this.filePath, 'utf-8');
         this.data = JSON.parse(content);
+        this.lastContent = content;
       } catch (e) {
-        console.error('Failed to load storage file:', e);
-        this.data = {};
+        this.ready = this.recover(e);
       }
     }
+
+    this.watch();
+  }
+
+  private watch(): void {
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(vscode.Uri.file(path.dirname(this.filePath)), path.basename(this.filePath))
+    );
+    const onFileEvent = () => {
+      if (this.watchTimer) {
+        clearTimeout(this.watchTimer);
+      }
+      this.watchTimer = setTimeout(async () => {
+        this.watchTimer = undefined;
+        await this.ready;
+        if (this.readExternalChanges()) {
+          this.onDidChangeEmitter.fire();
+        }
+      }, WATCH_DEBOUNCE);
+    };
+    watcher.onDidChange(onFileEvent);
+    watcher.onDidCreate(onFileEvent);
+    this.context.subscriptions.push(watcher, this.onDidChangeEmitter);
+  }
+
+  /**
+   * 文件内容与最近一次读写的不同时，以文件内容为准更新内存中的数据；
+   * 返回是否发生了外部修改（无法解析的内容视为写入尚未完成，忽略）
+   */
+  private readExternalChanges(): boolean {
+    let content: string;
+    try {
+      content = fs.readFileSync(this.filePath, 'utf-8');
+    } catch {
+      return false;
+    }
+    if (content === this.lastContent) {
+      return false;
+    }
+    try {
+      const data = JSON.parse(content);
+      if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        return false;
+      }
+      this.data = data;
+      this.lastContent = content;
+      try { console.log(`[bookmark] Storage file changed externally: ${this.filePath}`); } catch {}
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 存储文件无法解析：保留损坏的文件，并询问是否从最近的有效备份恢复，而不是直接以空数据覆盖
+   */
+  private async recover(error: unknown): Promise<void> {
+    console.error('Failed to load storage file:', error);
+    this.data = {};
+    const corrupt = this.copyToBackup('corrupt');
+    const latest = this.listBackupsSync()
+      .filter(b => b.reason !== 'corrupt')
+      .map(b => ({ backup: b, data: this.readBackup(b.path) }))
+      .find(b => b.data !== undefined);
+
+    if (!latest) {
+      try { vscode.window.showErrorMessage(`书签存储文件已损坏且没有可用的备份，将以空数据启动。损坏的文件已保留在: ${corrupt}`); } catch {}
+      return;
+    }
+
+    const restore = '从备份恢复';
+    const choice = await vscode.window.showErrorMessage(
+      `书签存储文件已损坏: ${this.filePath}`,
+      {
+        modal: true,
+        detail: `可以从最近的有效备份（${latest.backup.time.toLocaleString()}）恢复。损坏的文件已保留在: ${corrupt}`
+      },
+      restore,
+      '以空数据启动'
+    );
+    if (choice === restore) {
+      this.data = latest.data!;
+      this.persist();
+      vscode.window.showInformationMessage('已从备份恢复书签数据');
+    }
+  }
+
+  private readBackup(backupFile: string): Record<string, T> | undefined {
+    try {
+      const data = JSON.parse(fs.readFileSync(backupFile, 'utf-8'));
+      return data && typeof data === 'object' && !Array.isArray(data) ? data : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private copyToBackup(reason: string): string | undefined {
+    if (!fs.existsSync(this.filePath)) {
+      return undefined;
+    }
+    fs.mkdirSync(this.backupDir, { recursive: true });
+    const target = backupPath(path.join(this.backupDir, path.basename(this.filePath)), reason);
+    fs.copyFileSync(this.filePath, target);
+    return target;
+  }
+
+  /**
+   * 覆盖文件前按间隔保留一份自动备份，并删除超出数量的旧备份
+   */
+  private autoBackup(): void {
+    if (Date.now() - this.lastAutoBackup < AUTO_BACKUP_INTERVAL || !fs.existsSync(this.filePath)) {
+      return;
+    }
+    try {
+      this.copyToBackup('auto');
+      this.lastAutoBackup = Date.now();
+      this.listBackupsSync()
+        .filter(b => b.reason === 'auto')
+        .slice(MAX_AUTO_BACKUPS)
+        .forEach(b => fs.unlinkSync(b.path));
+    } catch (e) {
+      console.error('Failed to back up storage file:', this.filePath, e);
+    }
   }
 
   private persist(): void {
+    const tempPath = `${this.filePath}.tmp`;
     try {
-      fs.writeFileSync(this.filePath, JSON.stringify(this.data, null, 2), 'utf-8');
+      this.autoBackup();
+      const content = JSON.stringify(this.data, null, 2);
+      fs.writeFileSync(tempPath, content, 'utf-8');
+      fs.renameSync(tempPath, this.filePath);
+      this.lastContent = content;
       try { console.log(`[bookmark] Persisted storage to ${this.filePath}`); } catch {}
     } catch (e: unknown) {
       console.error('Failed to write storage file:', this.filePath, e);
@@ -79,33 +256,110 @@ class FileStorage<T> implements IStorage<T> {
   }
 
   async save(key: string, value: T): Promise<void> {
+    await this.ready;
+    // 先读取尚未处理的外部修改：其它 key 保留外部的内容，同一 key 按条目合并两边的修改
+    const base = this.data[key];
+    const changedExternally = this.readExternalChanges();
+    const external = this.data[key];
+    if (changedExternally && JSON.stringify(external) !== JSON.stringify(base)) {
+      const result = mergeCollections(base, external, value);
+      if (!result || result.conflicts.length > 0) {
+        const conflict = this.copyToBackup('conflict');
+        try {
+          vscode.window.showWarningMessage(
+            `书签数据 "${key}" 同时被其它窗口或程序修改，冲突的部分已使用本窗口的修改。外部的版本已备份到: ${conflict}`
+          );
+        } catch {}
+      }
+      if (result) {
+        value = result.merged as T;
+      }
+    }
     this.data[key] = value;
     this.persist();
+    if (changedExternally) {
+      this.onDidChangeEmitter.fire();
+    }
   }
 
   async load(key: string): Promise<T | undefined> {
+    await this.ready;
     return this.data[key];
   }
 
   async delete(key: string): Promise<void> {
+    await this.ready;
+    if (this.readExternalChanges()) {
+      this.onDidChangeEmitter.fire();
+    }
     delete this.data[key];
     this.persist();
   }
 
   async listKeys(): Promise<string[]> {
+    await this.ready;
     return Object.keys(this.data);
   }
+
+  async backup(reason: string): Promise<string | undefined> {
+    await this.ready;
+    const target = this.copyToBackup(reason);
+    if (target) {
+      try { console.log(`[bookmark] Backed up storage to ${target}`); } catch {}
+    }
+    return target;
+  }
+
+  async listBackups(): Promise<StorageBackup[]> {
+    return this.listBackupsSync();
+  }
+
+  private listBackupsSync(): StorageBackup[] {
+    if (!fs.existsSync(this.backupDir)) {
+      return [];
+    }
+    const prefix = `${path.basename(this.filePath)}.`;
+    return fs.readdirSync(this.backupDir)
+      .filter(name => name.startsWith(prefix) && name.endsWith('.bak'))
+      .map(name => {
+        const backupFile = path.join(this.backupDir, name);
+        const match = name.slice(prefix.length).match(/^(.+)-\d{4}-\d{2}-\d{2}T[\d-]+Z\.bak$/);
+        return { path: backupFile, reason: match ? match[1] : 'unknown', time: fs.statSync(backupFile).mtime };
+      })
+      .sort((a, b) => b.time.getTime() - a.time.getTime());
+  }
+
+  /**
+   * 用备份替换当前数据；替换前先备份当前文件，恢复操作本身也可以撤销
+   */
+  async restoreBackup(backupFile: string): Promise<void> {
+    await this.ready;
+    const data = this.readBackup(backupFile);
+    if (!data) {
+      throw new Error(`Invalid backup file: ${backupFile}`);
+    }
+    this.copyToBackup('before-restore');
+    this.data = data;
+    this.persist();
+  }
 }
 
 export class StorageFactory {
-  static create<T>(config: StorageConfig, context: vscode.ExtensionContext): IStorage<T> {
+  /**
+   * credentials 为远程书签服务的凭据（database 存储），未指定时按 config 创建
+   */
+  static create<T>(config: StorageConfig, context: vscode.ExtensionContext, credentials?: CredentialStore): IStorage<T> {
     switch (config.type) {
       case 'file':
         return new FileStorage<T>(config, context);
       case 'sqlite':
-        throw new Error('SQLite storage not implemented yet.');
-      case 'database':
-        throw new Error('Database storage not implemented yet.');
+        return new SqliteStorage<T>(config, context);
+      case 'database': {
+        // 创建时即开始从 SecretStorage 解析凭据，首次请求前即可就绪；失败时在首次请求时重试
+        const store = credentials ?? new CredentialStore(context, config.dbUrl ?? '', config);
+        store.get().catch(e => console.error('Failed to read bookmark server credentials:', e));
+        return new DatabaseStorage<T>(config, context, store);
+      }
       default:
         throw new Error(`Unknown storage type: ${config.type}`);
     }
@@ -0,0 +1,70 @@
+/**
+ * 符号书签：记录书签所在的函数、类等符号的路径（由外到内的名称），
+ * 代码移动后按路径重新找到该符号，并保持书签在符号内的相对行。
+ * 这里只依赖与 vscode.DocumentSymbol 兼容的数据结构，便于单独测试。
+ */
+
+export interface BookmarkSymbol {
+  path: string[]     // 符号路径，例如 ['BookmarkTreeProvider', 'handleDrop']
+  kind: number       // vscode.SymbolKind
+  offset: number     // 书签行相对符号起始行的偏移
+}
+
+export interface SymbolNode {
+  name: string
+  kind: number
+  range: { start: { line: number }, end: { line: number } }
+  children: SymbolNode[]
+}
+
+/**
+ * 包含指定行的最内层符号及其路径；不在任何符号内时返回 undefined
+ */
+export function findEnclosingSymbol (symbols: SymbolNode[], line: number): { node: SymbolNode, path: string[] } | undefined {
+  for (const symbol of symbols) {
+    if (symbol.range.start.line <= line && line <= symbol.range.end.line) {
+      const inner = findEnclosingSymbol(symbol.children, line);
+      return inner
+        ? { node: inner.node, path: [symbol.name, ...inner.path] }
+        : { node: symbol, path: [symbol.name] };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 按路径查找符号：每一层优先选择同名且类型相同的符号，其次为同名符号
+ */
+export function findSymbolByPath (symbols: SymbolNode[], path: string[], kind: number): SymbolNode | undefined {
+  let candidates = symbols;
+  let found: SymbolNode | undefined;
+  for (let i = 0; i < path.length; i++) {
+    const named = candidates.filter(s => s.name === path[i]);
+    const last = i === path.length - 1;
+    found = (last ? named.find(s => s.kind === kind) : undefined) ?? named[0];
+    if (!found) {
+      return undefined;
+    }
+    candidates = found.children;
+  }
+  return found;
+}
+
+export function captureSymbol (symbols: SymbolNode[], line: number): BookmarkSymbol | undefined {
+  const enclosing = findEnclosingSymbol(symbols, line);
+  if (!enclosing) {
+    return undefined;
+  }
+  return { path: enclosing.path, kind: enclosing.node.kind, offset: line - enclosing.node.range.start.line };
+}
+
+/**
+ * 符号当前位置下书签应在的行：符号起始行加上原来的偏移，不超出符号的范围；找不到符号时返回 undefined
+ */
+export function resolveSymbolLine (symbols: SymbolNode[], symbol: BookmarkSymbol): number | undefined {
+  const node = findSymbolByPath(symbols, symbol.path, symbol.kind);
+  if (!node) {
+    return undefined;
+  }
+  return Math.min(node.range.start.line + symbol.offset, node.range.end.line);
+}
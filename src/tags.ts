@@ -0,0 +1,71 @@
+/**
+ * 书签标签：与分组层级无关的自由分类（例如 auth、TODO-refactor、perf），一个书签可以有多个标签。
+ * 标签不含空白，书写时可带前缀 #；比较区分大小写，筛选与搜索时不区分
+ */
+
+export interface TagCount {
+  tag: string
+  count: number
+}
+
+/**
+ * 规范化用户输入的标签：去掉前缀 # 与首尾空白，内部的空白替换为 -
+ */
+export function normalizeTag (tag: string): string {
+  return tag.trim().replace(/^#+/, '').replace(/\s+/g, '-');
+}
+
+/**
+ * 解析以空白或逗号分隔的多个标签，去掉空标签与重复的标签
+ */
+export function parseTags (input: string): string[] {
+  const tags = input.split(/[\s,，]+/).map(normalizeTag).filter(tag => tag);
+  return Array.from(new Set(tags));
+}
+
+/**
+ * 所有书签中出现过的标签及其书签数，按名称排序
+ */
+export function collectTags (bookmarks: { tags?: string[] }[]): TagCount[] {
+  const counts = new Map<string, number>();
+  bookmarks.forEach(bookmark => (bookmark.tags ?? []).forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort((a, b) => a.tag.localeCompare(b.tag));
+}
+
+/**
+ * 书签是否带有全部指定的标签（不区分大小写）；没有指定标签时总是为 true
+ */
+export function hasAllTags (tags: string[] | undefined, required: string[]): boolean {
+  const own = (tags ?? []).map(tag => tag.toLowerCase());
+  return required.every(tag => own.includes(tag.toLowerCase()));
+}
+
+/**
+ * 书签的每个指定前缀都能匹配它的某个标签（不区分大小写），用于边输入边搜索
+ */
+export function matchesTagPrefixes (tags: string[] | undefined, prefixes: string[]): boolean {
+  const own = (tags ?? []).map(tag => tag.toLowerCase());
+  return prefixes.every(prefix => own.some(tag => tag.startsWith(prefix.toLowerCase())));
+}
+
+/**
+ * 将 sources 中的标签替换为 target（重命名或合并），保持原有顺序并去掉重复；
+ * 书签不含 sources 中任何标签时返回 undefined
+ */
+export function replaceTags (tags: string[] | undefined, sources: string[], target: string): string[] | undefined {
+  if (!tags || !tags.some(tag => sources.includes(tag))) {
+    return undefined;
+  }
+  return Array.from(new Set(tags.map(tag => sources.includes(tag) ? target : tag)));
+}
+
+/**
+ * 拆分搜索框中的查询：以 # 开头的词为标签前缀，其余为普通的搜索词
+ */
+export function splitTagQuery (query: string): { tags: string[], text: string } {
+  const words = query.split(/\s+/).filter(word => word);
+  return {
+    tags: words.filter(word => word.length > 1 && word.startsWith('#')).map(word => word.slice(1)),
+    text: words.filter(word => !word.startsWith('#')).join(' ')
+  };
+}
@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import { createAnchor, resolveAnchor } from '../anchor';
+
+const original = [
+	'import * as fs from \'fs\';',
+	'',
+	'function load (file: string) {',
+	'  const content = fs.readFileSync(file, \'utf-8\');',
+	'  return JSON.parse(content);',
+	'}',
+	''
+];
+
+suite('Anchor Test Suite', () => {
+	test('keeps the line when its content is unchanged', () => {
+		const anchor = createAnchor(original, 3);
+		assert.deepStrictEqual(resolveAnchor(original, anchor, 3), { line: 3, exact: true, score: 1 });
+	});
+
+	test('finds the exact line after lines were inserted above', () => {
+		const anchor = createAnchor(original, 3);
+		const changed = ['// header', '// more', ...original];
+		const resolution = resolveAnchor(changed, anchor, 3);
+		assert.strictEqual(resolution?.line, 5);
+		assert.strictEqual(resolution?.exact, true);
+	});
+
+	test('finds a slightly edited line by similarity', () => {
+		const anchor = createAnchor(original, 3);
+		const changed = [...original];
+		changed.splice(3, 1, '  const content = fs.readFileSync(file, \'utf8\');');
+		changed.unshift('// header');
+		const resolution = resolveAnchor(changed, anchor, 3);
+		assert.strictEqual(resolution?.line, 4);
+		assert.strictEqual(resolution?.exact, false);
+	});
+
+	test('returns undefined when the content is gone', () => {
+		const anchor = createAnchor(original, 3);
+		const changed = ['export const answer = 42;', ''];
+		assert.strictEqual(resolveAnchor(changed, anchor, 3), undefined);
+	});
+});
@@ -0,0 +1,140 @@
+import * as assert from 'assert';
+import { createBundle, filterGrouped, parseBundle, parseCsv, parseCsvRows, toCsv, toMarkdown } from '../bookmarkExchange';
+import { Bookmark, BookmarkGroup } from '../bookmarkManager';
+import { CURRENT_SCHEMA_VERSION, SchemaVersionError } from '../schema';
+
+const created = new Date('2024-01-02T03:04:05.000Z');
+
+function bookmark (id: string, overrides: Partial<Bookmark> = {}): Bookmark {
+	return { id, label: id, file: `src/${id}.ts`, line: 9, column: 0, created, priority: 0, ...overrides };
+}
+
+function group (id: string, name: string, parentId?: string): BookmarkGroup {
+	return { id, name, isDefault: false, created, parentId, priority: 0 };
+}
+
+suite('Bookmark Exchange Test Suite', () => {
+	test('renders groups as nested headings with file links', () => {
+		const parent = group('g1', 'Parent');
+		const child = group('g2', 'Child', 'g1');
+		const markdown = toMarkdown({
+			ungrouped: [bookmark('loose')],
+			rootGroups: [parent],
+			groupedBookmarks: new Map([['g2', [bookmark('a', { label: 'Entry *point*', description: 'start here,\nthen see [loose](bookmark:loose)' })]]]),
+			groupedSubGroups: new Map([['g1', [child]]])
+		}, b => `../${b.file}#L${b.line + 1}`);
+
+		assert.deepStrictEqual(markdown.split('\n'), [
+			'# 书签',
+			'',
+			'## Parent',
+			'',
+			'### Child',
+			'',
+			'- **Entry \\*point\\*** [src/a.ts:10](<../src/a.ts#L10>)',
+			'',
+			'  start here,',
+			'  then see [loose](<../src/loose.ts#L10>)',
+			'',
+			'## 未分组',
+			'',
+			'- **loose** [src/loose.ts:10](<../src/loose.ts#L10>)',
+			''
+		]);
+	});
+
+	test('keeps only selected bookmarks and the groups containing them', () => {
+		const parent = group('g1', 'Parent');
+		const child = group('g2', 'Child', 'g1');
+		const other = group('g3', 'Other');
+		const filtered = filterGrouped({
+			ungrouped: [bookmark('loose'), bookmark('skipped')],
+			rootGroups: [parent, other],
+			groupedBookmarks: new Map([['g1', [bookmark('b')]], ['g2', [bookmark('a')]], ['g3', [bookmark('c')]]]),
+			groupedSubGroups: new Map([['g1', [child]]])
+		}, new Set(['a', 'loose']));
+
+		assert.deepStrictEqual(filtered.ungrouped.map(b => b.id), ['loose']);
+		assert.deepStrictEqual(filtered.rootGroups, [parent]);
+		assert.deepStrictEqual(Array.from(filtered.groupedBookmarks.keys()).sort(), ['g1', 'g2']);
+		assert.deepStrictEqual(filtered.groupedBookmarks.get('g1'), []);
+		assert.deepStrictEqual(filtered.groupedSubGroups.get('g1'), [child]);
+	});
+
+	test('quotes CSV fields containing separators, quotes and newlines', () => {
+		const rows = parseCsvRows('a,"b,c","say ""hi""","multi\r\nline"\r\nx,y\r\n');
+		assert.deepStrictEqual(rows, [['a', 'b,c', 'say "hi"', 'multi\r\nline'], ['x', 'y']]);
+	});
+
+	test('round-trips bookmarks and group paths through CSV', () => {
+		const groups = new Map([['g2', ['Parent', 'Child']]]);
+		const csv = toCsv([
+			bookmark('a', { label: 'a, "quoted"', groupId: 'g2', priority: 2, description: 'two\nlines', tags: ['auth', 'perf'] }),
+			bookmark('b', { workspaceFolder: 'api', scope: 'team' })
+		], id => groups.get(id) ?? []);
+
+		let nextId = 0;
+		const bundle = parseCsv(csv, () => `id${nextId++}`);
+		assert.deepStrictEqual(bundle.groups.map(g => [g.name, g.parentId]), [['Parent', undefined], ['Child', bundle.groups[0].id]]);
+
+		const [a, b] = bundle.bookmarks;
+		assert.strictEqual(a.label, 'a, "quoted"');
+		assert.strictEqual(a.description, 'two\nlines');
+		assert.strictEqual(a.groupId, bundle.groups[1].id);
+		assert.strictEqual(a.priority, 2);
+		assert.deepStrictEqual(a.tags, ['auth', 'perf']);
+		assert.strictEqual(a.line, 9);
+		assert.strictEqual(a.created.toISOString(), created.toISOString());
+		assert.strictEqual(b.workspaceFolder, 'api');
+		assert.strictEqual(b.scope, 'team');
+		assert.strictEqual(b.groupId, undefined);
+		assert.strictEqual(b.tags, undefined);
+	});
+
+	test('escapes cells that spreadsheets would run as formulas', () => {
+		const csv = toCsv([
+			bookmark('a', { label: '=HYPERLINK("http://evil")', description: '+1', tags: ['-x'] }),
+			bookmark('b', { label: '@SUM(A1)', priority: -1 })
+		], () => []);
+		const rows = parseCsvRows(csv);
+		assert.strictEqual(rows[1][0], '\'=HYPERLINK("http://evil")');
+		assert.strictEqual(rows[1][6], '\'+1');
+		assert.strictEqual(rows[1][10], '\'-x');
+		assert.strictEqual(rows[2][0], '\'@SUM(A1)');
+		assert.strictEqual(rows[2][5], '-1');
+
+		const [a, b] = parseCsv(csv, () => 'id').bookmarks;
+		assert.strictEqual(a.label, '=HYPERLINK("http://evil")');
+		assert.strictEqual(a.description, '+1');
+		assert.deepStrictEqual(a.tags, ['-x']);
+		assert.strictEqual(b.label, '@SUM(A1)');
+		assert.strictEqual(b.priority, -1);
+	});
+
+	test('round-trips group names containing the path separator', () => {
+		const csv = toCsv([bookmark('a', { groupId: 'g' })], () => ['a > b', 'c\\d', '=e']);
+		let nextId = 0;
+		const bundle = parseCsv(csv, () => `id${nextId++}`);
+		assert.deepStrictEqual(bundle.groups.map(g => g.name), ['a > b', 'c\\d', '=e']);
+		assert.strictEqual(bundle.bookmarks[0].groupId, bundle.groups[2].id);
+	});
+
+	test('requires file and line columns in CSV', () => {
+		assert.throws(() => parseCsv('label,group\r\na,b\r\n', () => 'id'), /file/);
+	});
+
+	test('parses bundles and restores dates', () => {
+		const text = JSON.stringify(createBundle([bookmark('a', { groupId: 'g1' })], [group('g1', 'Group')]));
+		const bundle = parseBundle(text);
+		assert.strictEqual(bundle.schemaVersion, CURRENT_SCHEMA_VERSION);
+		assert.ok(bundle.bookmarks[0].created instanceof Date);
+		assert.strictEqual(bundle.bookmarks[0].groupId, 'g1');
+		assert.strictEqual(bundle.groups[0].name, 'Group');
+	});
+
+	test('rejects files that are not bundles or come from newer versions', () => {
+		assert.throws(() => parseBundle('[]'), /Not a bookmark bundle/);
+		const newer = { ...createBundle([], []), schemaVersion: CURRENT_SCHEMA_VERSION + 1 };
+		assert.throws(() => parseBundle(JSON.stringify(newer)), SchemaVersionError);
+	});
+});
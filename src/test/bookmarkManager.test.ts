@@ -0,0 +1,122 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { Bookmark, BookmarkGroup, BookmarkManager, splitByScope, storageKeysFor } from '../bookmarkManager';
+import { StoredCollection, toVersionedCollection, VersionedCollection } from '../schema';
+import { IStorage } from '../storage';
+
+const created = new Date('2024-01-02T03:04:05.000Z');
+
+function bookmark (id: string, fields: Partial<Bookmark> = {}): Bookmark {
+	return { id, label: id, file: `src/${id}.ts`, line: 0, column: 0, created, ...fields };
+}
+
+function group (id: string, fields: Partial<BookmarkGroup> = {}): BookmarkGroup {
+	return { id, name: id, isDefault: false, created, ...fields };
+}
+
+class MemoryStorage<T> implements IStorage<T> {
+	constructor (public values: Record<string, T> = {}) {}
+
+	async save (key: string, data: T): Promise<void> {
+		this.values[key] = JSON.parse(JSON.stringify(data));
+	}
+
+	async load (key: string): Promise<T | undefined> {
+		return this.values[key];
+	}
+
+	async delete (key: string): Promise<void> {
+		delete this.values[key];
+	}
+
+	async listKeys (): Promise<string[]> {
+		return Object.keys(this.values);
+	}
+
+	async backup (): Promise<string | undefined> {
+		return undefined;
+	}
+}
+
+suite('Bookmark Manager Test Suite', () => {
+	let restores: (() => void)[];
+
+	const replace = (target: object, name: string, value: unknown) => {
+		const object = target as Record<string, unknown>;
+		const original = object[name];
+		object[name] = value;
+		restores.push(() => { object[name] = original; });
+	};
+
+	setup(() => {
+		restores = [];
+		replace(vscode.window, 'showInformationMessage', async () => undefined);
+		replace(vscode.window, 'showWarningMessage', async () => undefined);
+	});
+
+	teardown(() => {
+		restores.reverse().forEach(restore => restore());
+	});
+
+	test('writes team bookmarks without scope, branch or folder name', () => {
+		const { personal, team } = splitByScope(
+			[
+				bookmark('mine', { workspaceFolder: 'app', branch: 'feature', groupId: 'own' }),
+				bookmark('shared', { workspaceFolder: 'app', scope: 'team', branch: 'feature', groupId: 'docs' })
+			],
+			[
+				group('own', { workspaceFolder: 'app' }),
+				group('docs', { workspaceFolder: 'app', scope: 'team' })
+			]
+		);
+
+		// 个人书签保留所属分支，文件夹名称由存储 key 决定
+		assert.deepStrictEqual(personal.bookmarks, [bookmark('mine', { branch: 'feature', groupId: 'own' })]);
+		assert.deepStrictEqual(personal.groups, [group('own')]);
+		// 团队书签文件可随仓库共享：不包含范围、分支与本机的文件夹名称
+		assert.deepStrictEqual(team.bookmarks, [bookmark('shared', { groupId: 'docs' })]);
+		assert.deepStrictEqual(team.groups, [group('docs')]);
+	});
+
+	test('keeps the original keys in a single folder and one key per folder in a multi-root workspace', () => {
+		assert.deepStrictEqual(storageKeysFor('app', false), { bookmarks: 'bookmarks', groups: 'bookmarkGroups' });
+		assert.deepStrictEqual(storageKeysFor('app', true), { bookmarks: 'bookmarks:app', groups: 'bookmarkGroups:app' });
+		assert.notDeepStrictEqual(storageKeysFor('api', true), storageKeysFor('app', true));
+	});
+
+	test('renames tags and removes groups for bookmarks on other branches too', async () => {
+		// 按分支显示，未打开文件夹时没有当前分支：只显示全局书签
+		replace(vscode.workspace, 'getConfiguration', () => ({
+			get: (key: string, fallback: unknown) => key === 'branchScoping' ? true : fallback
+		}));
+		const bookmarks = new MemoryStorage<StoredCollection<Bookmark>>({
+			bookmarks: toVersionedCollection([
+				bookmark('global', { file: __filename, tags: ['todo'], groupId: 'review' }),
+				bookmark('feature', { file: __filename, tags: ['todo'], groupId: 'review', branch: 'feature' })
+			])
+		});
+		const groups = new MemoryStorage<StoredCollection<BookmarkGroup>>({
+			bookmarkGroups: toVersionedCollection([group('review')])
+		});
+		const manager = new BookmarkManager({ subscriptions: [] } as unknown as vscode.ExtensionContext, bookmarks, groups);
+		const saved = () => (bookmarks.values.bookmarks as VersionedCollection<Bookmark>).items
+			.map(b => ({ id: b.id, tags: b.tags, groupId: b.groupId }));
+
+		assert.strictEqual(await manager.mergeTags(['todo'], 'later'), 2);
+		assert.deepStrictEqual(manager.getBookmarksForFile(__filename).map(b => b.id), ['global']);
+		await manager.removeGroup('review');
+		assert.deepStrictEqual(saved(), [
+			{ id: 'global', tags: ['later'], groupId: undefined },
+			{ id: 'feature', tags: ['later'], groupId: undefined }
+		]);
+
+		// 撤销同样还原其它分支上的书签
+		await manager.undo();
+		await manager.undo();
+		assert.deepStrictEqual(saved(), [
+			{ id: 'global', tags: ['todo'], groupId: 'review' },
+			{ id: 'feature', tags: ['todo'], groupId: 'review' }
+		]);
+		assert.deepStrictEqual(manager.getBookmarksForFile(__filename).map(b => b.id), ['global']);
+	});
+});
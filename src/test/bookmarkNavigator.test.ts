@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { matchesQuery, rankBookmarks, stepInFile, stepInList } from '../bookmarkNavigator';
+import { Bookmark } from '../bookmarkManager';
+
+function bookmark (id: string, priority: number, created: string, line = 0): Bookmark {
+	return { id, label: id, file: `src/${id}.ts`, line, column: 0, created: new Date(created), priority };
+}
+
+suite('Bookmark Navigator Test Suite', () => {
+	test('matches every word as a subsequence of some field', () => {
+		const fields = ['Login handler', 'Auth > Session', 'session.ts', 'const token = await refresh();'];
+		assert.ok(matchesQuery('', fields));
+		assert.ok(matchesQuery('lgn', fields));
+		assert.ok(matchesQuery('auth tok', fields));
+		assert.ok(matchesQuery('SESS.ts', fields));
+		assert.ok(!matchesQuery('login xyz', fields));
+		assert.ok(!matchesQuery('nigol', fields));
+	});
+
+	test('matches note text by substring', () => {
+		const fields = ['login'];
+		const texts = ['Tokens are refreshed before expiry'];
+		assert.ok(matchesQuery('login expiry', fields, texts));
+		assert.ok(matchesQuery('REFRESH', fields, texts));
+		assert.ok(!matchesQuery('tkn', fields, texts));
+	});
+
+	test('ranks by priority, then by most recent visit or creation', () => {
+		const bookmarks = [
+			bookmark('old', 0, '2024-01-01'),
+			bookmark('new', 0, '2024-06-01'),
+			bookmark('important', 1, '2023-01-01'),
+			bookmark('visited', 0, '2023-01-01')
+		];
+		const visits = { visited: new Date('2024-07-01').getTime() };
+		assert.deepStrictEqual(rankBookmarks(bookmarks, visits).map(b => b.id), ['important', 'visited', 'new', 'old']);
+	});
+
+	test('steps through a list and wraps around at both ends', () => {
+		const list = ['a', 'b', 'c'].map(id => bookmark(id, 0, '2024-01-01'));
+		assert.strictEqual(stepInList(list, 'a', 1)?.id, 'b');
+		assert.strictEqual(stepInList(list, 'c', 1)?.id, 'a');
+		assert.strictEqual(stepInList(list, 'a', -1)?.id, 'c');
+		assert.strictEqual(stepInList(list, undefined, 1)?.id, 'a');
+		assert.strictEqual(stepInList(list, 'missing', -1)?.id, 'c');
+		assert.strictEqual(stepInList([], 'a', 1), undefined);
+	});
+
+	test('steps to the nearest bookmark after or before the cursor line', () => {
+		const list = [bookmark('c', 0, '2024-01-01', 30), bookmark('a', 0, '2024-01-01', 10), bookmark('b', 0, '2024-01-01', 20)];
+		assert.strictEqual(stepInFile(list, 10, 1)?.id, 'b');
+		assert.strictEqual(stepInFile(list, 15, -1)?.id, 'a');
+		assert.strictEqual(stepInFile(list, 30, 1)?.id, 'a');
+		assert.strictEqual(stepInFile(list, 5, -1)?.id, 'c');
+		assert.strictEqual(stepInFile([], 5, 1), undefined);
+	});
+});
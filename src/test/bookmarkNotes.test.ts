@@ -0,0 +1,27 @@
+import * as assert from 'assert';
+import { bookmarkLink, notesText, renderNotes, resolveBookmarkLinks } from '../bookmarkNotes';
+
+suite('Bookmark Notes Test Suite', () => {
+	test('creates links to bookmarks with escaped labels', () => {
+		assert.strictEqual(bookmarkLink({ id: 'b1', label: 'parse [v2]' }), '[parse \\[v2\\]](bookmark:b1)');
+		assert.strictEqual(resolveBookmarkLinks(bookmarkLink({ id: 'b1', label: 'parse [v2]' }), () => '#'), '[parse \\[v2\\]](#)');
+	});
+
+	test('resolves bookmark links and keeps the text of missing ones', () => {
+		const notes = 'See [parser](bookmark:b1) and [old](bookmark:gone), or [docs](https://example.com).';
+		assert.strictEqual(
+			resolveBookmarkLinks(notes, id => id === 'b1' ? '../src/parser.ts#L3' : undefined),
+			'See [parser](../src/parser.ts#L3) and old, or [docs](https://example.com).'
+		);
+	});
+
+	test('renders bookmark links as jump commands and disables other commands', () => {
+		const rendered = renderNotes('[next](bookmark:b2) [x](command:workbench.action.quit)', 'ext.jump');
+		assert.strictEqual(rendered, `[next](command:ext.jump?${encodeURIComponent('["b2"]')}) [x](#workbench.action.quit)`);
+	});
+
+	test('extracts searchable text without link targets or markup', () => {
+		const notes = '## Flow\n\nCalls `refreshToken()` first, see [login](bookmark:abc123).\n\n```ts\nconst x = 1;\n```';
+		assert.strictEqual(notesText(notes), 'Flow Calls refreshToken() first, see login . ts const x = 1;');
+	});
+});
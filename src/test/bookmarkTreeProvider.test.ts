@@ -0,0 +1,17 @@
+import * as assert from 'assert';
+import type { BookmarkGroup } from '../bookmarkManager';
+import { outermostGroupIds } from '../bookmarkTreeProvider';
+
+function group (id: string, parentId?: string): BookmarkGroup {
+	return { id, name: id, isDefault: false, created: new Date(0), parentId };
+}
+
+suite('Bookmark Tree Provider Test Suite', () => {
+	test('moves only the outermost of the selected groups', () => {
+		const groups = [group('a'), group('b', 'a'), group('c', 'b'), group('d')];
+		// c 的祖先 a 也被选中，因此 c 随 a 一起移动，不单独移动
+		assert.deepStrictEqual(outermostGroupIds(['c', 'a', 'd'], groups), ['a', 'd']);
+		assert.deepStrictEqual(outermostGroupIds(['b', 'c', 'c'], groups), ['b']);
+		assert.deepStrictEqual(outermostGroupIds(['c', 'd'], groups), ['c', 'd']);
+	});
+});
@@ -0,0 +1,134 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CredentialStore } from '../credentials';
+
+const DB_URL = 'http://bookmarks.test/api';
+
+class FakeSecrets {
+	values = new Map<string, string>();
+	private emitter = new vscode.EventEmitter<vscode.SecretStorageChangeEvent>();
+	onDidChange = this.emitter.event;
+
+	async get (key: string): Promise<string | undefined> {
+		return this.values.get(key);
+	}
+
+	async store (key: string, value: string): Promise<void> {
+		this.values.set(key, value);
+		this.emitter.fire({ key });
+	}
+
+	async delete (key: string): Promise<void> {
+		this.values.delete(key);
+		this.emitter.fire({ key });
+	}
+}
+
+suite('Credential Store Test Suite', () => {
+	let secrets: FakeSecrets;
+	let context: vscode.ExtensionContext;
+	let prompts: string[];
+	let answer: string | undefined;
+	// 设置项 bookmarkPlugin.password 在各级别中的值，以及对设置的修改
+	let settings: { globalValue?: string, workspaceValue?: string };
+	let updates: [string, unknown, vscode.ConfigurationTarget][];
+	let restores: (() => void)[];
+
+	const replace = (target: object, name: string, value: unknown) => {
+		const object = target as Record<string, unknown>;
+		const original = object[name];
+		object[name] = value;
+		restores.push(() => { object[name] = original; });
+	};
+
+	setup(() => {
+		secrets = new FakeSecrets();
+		context = { subscriptions: [], secrets } as unknown as vscode.ExtensionContext;
+		prompts = [];
+		answer = undefined;
+		settings = {};
+		updates = [];
+		restores = [];
+		replace(vscode.window, 'showWarningMessage', async (message: string) => {
+			prompts.push(message);
+			return answer;
+		});
+		replace(vscode.window, 'showInformationMessage', async () => undefined);
+		replace(vscode.workspace, 'getConfiguration', () => ({
+			inspect: () => ({ key: 'bookmarkPlugin.password', ...settings }),
+			update: async (key: string, value: unknown, target: vscode.ConfigurationTarget) => { updates.push([key, value, target]); }
+		}));
+	});
+
+	teardown(() => {
+		restores.reverse().forEach(restore => restore());
+	});
+
+	test('reads credentials saved for the server address', async () => {
+		await secrets.store(`bookmarkPlugin.database:${DB_URL}:username`, 'alice');
+		await secrets.store(`bookmarkPlugin.database:${DB_URL}:password`, 'secret');
+		await secrets.store('bookmarkPlugin.database:http://other.test:password', 'other');
+
+		assert.deepStrictEqual(await new CredentialStore(context, DB_URL).get(), { username: 'alice', password: 'secret' });
+		assert.deepStrictEqual(await new CredentialStore(context, 'http://none.test', { username: 'bob' }).get(), { username: 'bob', password: undefined });
+	});
+
+	test('ignores a plaintext password until the migration is confirmed', async () => {
+		settings = { globalValue: 'plain' };
+		const store = new CredentialStore(context, DB_URL, { username: 'alice', password: 'plain' });
+
+		assert.deepStrictEqual(await store.get(), { username: 'alice', password: undefined });
+		assert.strictEqual(prompts.length, 1);
+		assert.strictEqual(secrets.values.size, 0);
+		assert.deepStrictEqual(updates, []);
+	});
+
+	test('moves a confirmed plaintext password into secret storage and out of the settings', async () => {
+		settings = { globalValue: 'plain', workspaceValue: 'plain' };
+		answer = '迁移到安全存储';
+		const store = new CredentialStore(context, DB_URL, { password: 'plain' });
+
+		assert.strictEqual((await store.get()).password, 'plain');
+		assert.strictEqual(secrets.values.get(`bookmarkPlugin.database:${DB_URL}:password`), 'plain');
+		assert.deepStrictEqual(updates, [
+			['password', undefined, vscode.ConfigurationTarget.Global],
+			['password', undefined, vscode.ConfigurationTarget.Workspace]
+		]);
+
+		// 清除凭据后不会再从设置中读取明文密码
+		await store.clear();
+		assert.strictEqual((await store.get()).password, undefined);
+		assert.strictEqual(prompts.length, 1);
+	});
+
+	test('retries reading secret storage after a failed read', async () => {
+		await secrets.store(`bookmarkPlugin.database:${DB_URL}:password`, 'secret');
+		const get = secrets.get.bind(secrets);
+		let failures = 1;
+		replace(secrets, 'get', async (key: string) => {
+			if (failures > 0) {
+				failures--;
+				throw new Error('no keyring');
+			}
+			return get(key);
+		});
+		const store = new CredentialStore(context, DB_URL, { username: 'alice' });
+
+		await assert.rejects(store.get(), /no keyring/);
+		assert.deepStrictEqual(await store.get(), { username: 'alice', password: 'secret' });
+	});
+
+	test('stores and clears credentials per server address', async () => {
+		const store = new CredentialStore(context, DB_URL);
+		await store.store({ username: 'alice', password: 'secret' });
+		assert.deepStrictEqual(Array.from(secrets.values.keys()).sort(), [
+			`bookmarkPlugin.database:${DB_URL}:password`,
+			`bookmarkPlugin.database:${DB_URL}:username`
+		]);
+		assert.deepStrictEqual(await store.get(), { username: 'alice', password: 'secret' });
+
+		await store.clear();
+		assert.strictEqual(secrets.values.size, 0);
+		assert.deepStrictEqual(await store.get(), { username: undefined, password: undefined });
+	});
+});
@@ -0,0 +1,129 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import { DatabaseStorage, mergeRecords, RemoteRecord } from '../databaseStorage';
+import type { CredentialStore } from '../credentials';
+
+interface Item {
+	id: string
+	label: string
+}
+
+/**
+ * 内存中的书签服务，按 database-protocol.md 中的规则合并记录；offline 为 true 时所有请求失败
+ */
+class FakeServer {
+	store: Record<string, Record<string, RemoteRecord>> = {};
+	offline = false;
+
+	fetch = async (url: string, init: { method: string, body?: string }) => {
+		if (this.offline) {
+			throw new TypeError('fetch failed');
+		}
+		const key = /\/keys\/(.+)$/.exec(url)?.[1];
+		const reply = (status: number, body?: unknown) => ({ ok: status < 400, status, statusText: '', json: async () => body });
+		if (!key) {
+			return reply(200, { keys: Object.keys(this.store) });
+		}
+		const name = decodeURIComponent(key);
+		if (init.method === 'GET') {
+			return this.store[name] ? reply(200, { records: Object.values(this.store[name]) }) : reply(404);
+		}
+		if (init.method === 'DELETE') {
+			delete this.store[name];
+			return reply(204);
+		}
+		this.store[name] = mergeRecords(this.store[name] ?? {}, JSON.parse(init.body!).records);
+		return reply(200, { records: Object.values(this.store[name]) });
+	};
+
+	items (key: string): string[] {
+		return Object.values(this.store[key] ?? {}).filter(r => !r.deleted && r.id !== '__schema__').map(r => r.id).sort();
+	}
+}
+
+const record = (id: string, updatedAt: number, deleted?: boolean): RemoteRecord =>
+	deleted ? { id, updatedAt, deleted } : { id, updatedAt, order: 0, data: { id, label: id } };
+
+suite('Database Storage Test Suite', () => {
+	let dir: string;
+	let server: FakeServer;
+	let subscriptions: { dispose (): unknown }[];
+	const originalFetch = globalThis.fetch;
+
+	setup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'database-storage-'));
+		server = new FakeServer();
+		subscriptions = [];
+		globalThis.fetch = server.fetch as unknown as typeof fetch;
+	});
+
+	teardown(() => {
+		subscriptions.forEach(d => d.dispose());
+		globalThis.fetch = originalFetch;
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	const createStorage = () => new DatabaseStorage<Item[]>(
+		{ type: 'database', dbUrl: 'http://bookmarks.test/api', location: path.join(dir, 'cache.json') },
+		{ subscriptions } as unknown as vscode.ExtensionContext,
+		{ get: async () => ({}) } as unknown as CredentialStore
+	);
+
+	test('merges records and tombstones by updatedAt', () => {
+		const merged = mergeRecords(
+			{ a: record('a', 2), b: record('b', 5), c: record('c', 1) },
+			[record('a', 3, true), record('b', 4, true), record('c', 1, true), record('d', 1)]
+		);
+		assert.strictEqual(merged.a.deleted, true);      // 远程的删除更新
+		assert.strictEqual(merged.b.deleted, undefined); // 本地的修改更新
+		assert.strictEqual(merged.c.deleted, true);      // 时间相同时以远程为准
+		assert.ok(merged.d);
+	});
+
+	test('keeps records pulled after loading when saving', async () => {
+		server.store.bookmarks = { a: record('a', 1), b: record('b', 1) };
+		server.offline = true;
+		fs.writeFileSync(path.join(dir, 'cache.json'), JSON.stringify({ records: { bookmarks: { a: record('a', 1) } }, queue: [] }));
+
+		const storage = createStorage();
+		assert.deepStrictEqual((await storage.load('bookmarks'))?.map(item => item.id), ['a']);
+
+		// 恢复连接后的重试拉取到其它客户端添加的 b，并通知重新加载
+		let changes = 0;
+		storage.onDidChange(() => changes++);
+		server.offline = false;
+		await storage['syncWithServer']();
+		assert.strictEqual(changes, 1);
+
+		// 重新加载之前的写入不会删除尚未读取的 b
+		await storage.save('bookmarks', [{ id: 'a', label: 'a' }, { id: 'c', label: 'c' }]);
+		await storage['flush']();
+		assert.deepStrictEqual(server.items('bookmarks'), ['a', 'b', 'c']);
+
+		// 读取之后再移除的记录才会删除
+		assert.deepStrictEqual((await storage.load('bookmarks'))?.map(item => item.id).sort(), ['a', 'b', 'c']);
+		await storage.save('bookmarks', [{ id: 'c', label: 'c' }]);
+		await storage['flush']();
+		assert.deepStrictEqual(server.items('bookmarks'), ['c']);
+	});
+
+	test('queues writes while offline and replays them in order', async () => {
+		server.offline = true;
+		const storage = createStorage();
+		await storage.load('bookmarks');
+		await storage.save('bookmarks', [{ id: 'a', label: 'a' }]);
+		await storage.save('bookmarks', [{ id: 'a', label: 'renamed' }]);
+		await storage['flush']().catch(() => undefined);
+		assert.deepStrictEqual(server.store, {});
+		assert.strictEqual(JSON.parse(fs.readFileSync(path.join(dir, 'cache.json'), 'utf-8')).queue.length, 2);
+
+		server.offline = false;
+		await storage['syncWithServer']();
+		assert.deepStrictEqual(server.store.bookmarks.a.data, { id: 'a', label: 'renamed' });
+		assert.strictEqual(JSON.parse(fs.readFileSync(path.join(dir, 'cache.json'), 'utf-8')).queue.length, 0);
+		assert.deepStrictEqual(fs.readdirSync(dir), ['cache.json']);
+	});
+});
@@ -0,0 +1,116 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	detectForeignFormat,
+	foreignProjectRoot,
+	parseForeignBookmarks,
+	resolveForeignBookmarks
+} from '../foreignBookmarks';
+
+function ids () {
+	let next = 0;
+	return () => `id${next++}`;
+}
+
+const BOOKMARKS_EXTENSION = JSON.stringify({
+	files: [
+		{ path: 'src/a.ts', bookmarks: [{ line: 3, column: 2, label: 'entry' }, { line: 7, column: 0, label: '' }] },
+		{ path: '$ROOTPATH$/src/b.ts', bookmarks: [0, -1] },
+		{ bookmarks: [1] }
+	]
+});
+
+const JETBRAINS = `<?xml version="1.0" encoding="UTF-8"?>
+<project version="4">
+  <component name="BookmarksManager">
+    <option name="groups">
+      <GroupState>
+        <option name="bookmarks">
+          <BookmarkState>
+            <attributes>
+              <entry key="url" value="file://$PROJECT_DIR$/src/Main.java" />
+              <entry key="line" value="12" />
+            </attributes>
+            <option name="description" value="main &amp; loop" />
+            <option name="type" value="DIGIT_1" />
+          </BookmarkState>
+          <BookmarkState>
+            <attributes>
+              <entry key="url" value="jar://$PROJECT_DIR$/lib/x.jar!/X.class" />
+            </attributes>
+          </BookmarkState>
+        </option>
+        <option name="name" value="review" />
+      </GroupState>
+    </option>
+  </component>
+  <component name="BookmarkManager">
+    <bookmark url="file://$PROJECT_DIR$/README.md" line="0" mnemonic="A" />
+  </component>
+</project>`;
+
+suite('Foreign Bookmarks Test Suite', () => {
+	test('detects supported formats', () => {
+		assert.strictEqual(detectForeignFormat(BOOKMARKS_EXTENSION), 'bookmarks');
+		assert.strictEqual(detectForeignFormat(JETBRAINS), 'jetbrains');
+		assert.strictEqual(detectForeignFormat('{"bookmarks": {"schemaVersion": 2, "items": []}}'), undefined);
+		assert.strictEqual(detectForeignFormat('<project></project>'), undefined);
+		assert.throws(() => parseForeignBookmarks('not a bookmark file', ids()), /Unrecognized/);
+	});
+
+	test('finds the project root of .vscode and .idea files', () => {
+		assert.strictEqual(foreignProjectRoot(path.join('/repo', '.vscode', 'bookmarks.json')), '/repo');
+		assert.strictEqual(foreignProjectRoot(path.join('/repo', '.idea', 'workspace.xml')), '/repo');
+		assert.strictEqual(foreignProjectRoot(path.join('/tmp', 'export.xml')), undefined);
+	});
+
+	test('imports the Bookmarks extension format into one group', () => {
+		const result = parseForeignBookmarks(BOOKMARKS_EXTENSION, ids());
+		assert.deepStrictEqual(result.bundle.groups.map(g => g.name), ['Bookmarks']);
+		assert.deepStrictEqual(
+			result.bundle.bookmarks.map(b => [b.label, b.file, b.line, b.column, b.groupId]),
+			[
+				['entry', 'src/a.ts', 3, 2, 'id0'],
+				['a.ts:8', 'src/a.ts', 7, 0, 'id0'],
+				['b.ts:1', 'src/b.ts', 0, 0, 'id0']
+			]
+		);
+		assert.deepStrictEqual(result.unresolved.map(u => u.reason), ['行号无效', '缺少文件路径']);
+	});
+
+	test('maps JetBrains groups and keeps mnemonics in labels', () => {
+		const result = parseForeignBookmarks(JETBRAINS, ids());
+		assert.deepStrictEqual(result.bundle.groups.map(g => g.name), ['review', 'JetBrains']);
+		assert.deepStrictEqual(
+			result.bundle.bookmarks.map(b => [b.label, b.file, b.line, b.groupId]),
+			[
+				['[1] main & loop', 'src/Main.java', 12, result.bundle.groups[0].id],
+				['[A] README.md:1', 'README.md', 0, result.bundle.groups[1].id]
+			]
+		);
+		assert.deepStrictEqual(result.unresolved, [
+			{ entry: 'jar://$PROJECT_DIR$/lib/x.jar!/X.class', reason: '不是项目中的本地文件' }
+		]);
+	});
+
+	test('resolves files against the project and reports missing ones', () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'foreign-bookmarks-'));
+		try {
+			fs.mkdirSync(path.join(root, 'src'));
+			fs.writeFileSync(path.join(root, 'src', 'a.ts'), 'one\ntwo\nthree\nfour\n');
+
+			const parsed = parseForeignBookmarks(BOOKMARKS_EXTENSION, ids());
+			const result = resolveForeignBookmarks(parsed, root, { name: 'app', root });
+			assert.deepStrictEqual(result.bundle.bookmarks.map(b => [b.file, b.line, b.workspaceFolder]), [['src/a.ts', 3, 'app']]);
+			assert.deepStrictEqual(result.bundle.groups.map(g => g.workspaceFolder), ['app']);
+			assert.deepStrictEqual(result.unresolved.slice(2), [
+				{ entry: 'src/a.ts:8', reason: '超出文件末尾（共 5 行）' },
+				{ entry: 'src/b.ts:1', reason: '文件不存在' }
+			]);
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { listBranches, parseHead, parsePackedBranches, readBranch } from '../gitBranch';
+
+suite('Git Branch Test Suite', () => {
+	test('parses the branch from HEAD and ignores a detached HEAD', () => {
+		assert.strictEqual(parseHead('ref: refs/heads/feature/login\n'), 'feature/login');
+		assert.strictEqual(parseHead('4b825dc642cb6eb9a060e54bf8d69288fbee4904\n'), undefined);
+	});
+
+	test('parses local branches from packed-refs', () => {
+		const packed = [
+			'# pack-refs with: peeled fully-peeled sorted',
+			'4b825dc642cb6eb9a060e54bf8d69288fbee4904 refs/heads/main',
+			'4b825dc642cb6eb9a060e54bf8d69288fbee4904 refs/remotes/origin/main',
+			'4b825dc642cb6eb9a060e54bf8d69288fbee4904 refs/tags/v1.0',
+			'^4b825dc642cb6eb9a060e54bf8d69288fbee4904',
+			'4b825dc642cb6eb9a060e54bf8d69288fbee4904 refs/heads/release/1.x'
+		].join('\n');
+		assert.deepStrictEqual(parsePackedBranches(packed), ['main', 'release/1.x']);
+	});
+
+	test('reads the current branch and local branches of a worktree', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'git-branch-'));
+		try {
+			const gitDir = path.join(root, 'repo', '.git');
+			fs.mkdirSync(path.join(gitDir, 'refs', 'heads', 'feature'), { recursive: true });
+			fs.writeFileSync(path.join(gitDir, 'HEAD'), 'ref: refs/heads/main\n');
+			fs.writeFileSync(path.join(gitDir, 'refs', 'heads', 'main'), '');
+			fs.writeFileSync(path.join(gitDir, 'refs', 'heads', 'feature', 'login'), '');
+			fs.writeFileSync(path.join(gitDir, 'packed-refs'), '4b825dc642cb6eb9a060e54bf8d69288fbee4904 refs/heads/old\n');
+
+			// worktree 中 .git 是指向主仓库 worktrees 目录的文件
+			const worktreeGitDir = path.join(gitDir, 'worktrees', 'wt');
+			fs.mkdirSync(worktreeGitDir, { recursive: true });
+			fs.writeFileSync(path.join(worktreeGitDir, 'HEAD'), 'ref: refs/heads/feature/login\n');
+			fs.writeFileSync(path.join(worktreeGitDir, 'commondir'), '../..\n');
+			fs.mkdirSync(path.join(root, 'wt'));
+			fs.writeFileSync(path.join(root, 'wt', '.git'), `gitdir: ${worktreeGitDir}\n`);
+
+			assert.strictEqual(await readBranch(path.join(root, 'repo')), 'main');
+			assert.strictEqual(await readBranch(path.join(root, 'wt')), 'feature/login');
+			assert.deepStrictEqual(await listBranches(path.join(root, 'wt')), ['feature/login', 'main', 'old']);
+			assert.strictEqual(await readBranch(root), undefined);
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+});
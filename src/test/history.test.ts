@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+import { applyEntry, diffSnapshots, History, HistoryEntry, HistoryState, mergeEntries, takeSnapshot } from '../history';
+
+interface TestBookmark {
+	id: string
+	label: string
+	line: number
+	priority?: number
+	groupId?: string
+}
+
+interface TestGroup {
+	id: string
+	name: string
+}
+
+type TestState = HistoryState<TestBookmark, TestGroup>;
+type TestEntry = HistoryEntry<TestBookmark, TestGroup>;
+
+function state (): TestState {
+	return {
+		bookmarks: [
+			{ id: 'a', label: 'A', line: 1, priority: 0 },
+			{ id: 'b', label: 'B', line: 5, groupId: 'g' }
+		],
+		groups: [{ id: 'g', name: 'G' }]
+	};
+}
+
+function record (current: TestState, label: string, mutate: (s: TestState) => void): TestEntry {
+	const before = takeSnapshot(current);
+	mutate(current);
+	return diffSnapshots(label, before, takeSnapshot(current))!;
+}
+
+suite('History Test Suite', () => {
+	test('records nothing when no entity changes', () => {
+		const current = state();
+		assert.strictEqual(diffSnapshots('noop', takeSnapshot(current), takeSnapshot(current)), undefined);
+	});
+
+	test('undoes and redoes a rename while keeping later line changes', () => {
+		const current = state();
+		const entry = record(current, 'rename', s => { s.bookmarks[0].label = 'Renamed'; });
+		assert.strictEqual(entry.changes.length, 1);
+
+		// 记录之后书签因编辑文件而移动
+		current.bookmarks[0].line = 10;
+		const undone = applyEntry(current, entry, 'undo');
+		assert.deepStrictEqual(undone.bookmarks[0], { id: 'a', label: 'A', line: 10, priority: 0 });
+
+		const redone = applyEntry(undone, entry, 'redo');
+		assert.strictEqual(redone.bookmarks[0].label, 'Renamed');
+		assert.strictEqual(redone.bookmarks[0].line, 10);
+	});
+
+	test('restores removed entities and removes added ones', () => {
+		const current = state();
+		const removal = record(current, 'remove group', s => {
+			s.groups = [];
+			s.bookmarks[1].groupId = undefined;
+		});
+		const undone = applyEntry(current, removal, 'undo');
+		assert.deepStrictEqual(undone.groups, [{ id: 'g', name: 'G' }]);
+		assert.strictEqual(undone.bookmarks[1].groupId, 'g');
+
+		const added = state();
+		const addition = record(added, 'add', s => { s.bookmarks.push({ id: 'c', label: 'C', line: 0 }); });
+		assert.deepStrictEqual(applyEntry(added, addition, 'undo').bookmarks.map(b => b.id), ['a', 'b']);
+	});
+
+	test('does not mutate the current state when applying', () => {
+		const current = state();
+		const entry = record(current, 'priority', s => { s.bookmarks[0].priority = 3; });
+		applyEntry(current, entry, 'undo');
+		assert.strictEqual(current.bookmarks[0].priority, 3);
+	});
+
+	test('merges consecutive entries into one step', () => {
+		const current = state();
+		const first = record(current, 'move', s => { s.bookmarks[0].groupId = 'g'; });
+		const second = record(current, 'move', s => { s.bookmarks[1].groupId = undefined; });
+		const merged = mergeEntries('move 2', [first, second])!;
+		assert.strictEqual(merged.changes.length, 2);
+		const undone = applyEntry(current, merged, 'undo');
+		assert.strictEqual(undone.bookmarks[0].groupId, undefined);
+		assert.strictEqual(undone.bookmarks[1].groupId, 'g');
+
+		// 改了又改回时不产生任何一步
+		const back = record(current, 'back', s => { s.bookmarks[0].groupId = undefined; });
+		assert.strictEqual(mergeEntries('noop', [first, back]), undefined);
+	});
+
+	test('keeps a bounded undo stack and clears redo on new changes', () => {
+		const history = new History<TestBookmark, TestGroup>();
+		const entry = (label: string): TestEntry => ({ label, changes: [] });
+		for (let i = 0; i < 105; i++) {
+			history.push(entry(String(i)));
+		}
+		assert.strictEqual(history.peek()!.label, '104');
+		assert.strictEqual(history.undo()!.label, '104');
+		assert.strictEqual(history.peekRedo()!.label, '104');
+		assert.strictEqual(history.redo()!.label, '104');
+
+		history.undo();
+		history.push(entry('new'));
+		assert.strictEqual(history.peekRedo(), undefined);
+
+		let count = 0;
+		while (history.undo()) {
+			count++;
+		}
+		assert.strictEqual(count, 100);
+	});
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { applyChanges, applyChangesToRange, rangeEndOf, shiftPosition, TextChange } from '../lineTracker';
+
+function change (sl: number, sc: number, el: number, ec: number, text: string): TextChange {
+	return { range: { start: { line: sl, character: sc }, end: { line: el, character: ec } }, text };
+}
+
+suite('Line Tracker Test Suite', () => {
+	test('keeps positions before the change', () => {
+		assert.deepStrictEqual(shiftPosition({ line: 2, column: 4 }, change(5, 0, 5, 0, 'x\n')), { line: 2, column: 4 });
+	});
+
+	test('shifts lines when lines are inserted above', () => {
+		assert.deepStrictEqual(shiftPosition({ line: 5, column: 3 }, change(1, 0, 1, 0, 'a\nb\n')), { line: 7, column: 3 });
+	});
+
+	test('moves down when a newline is inserted at the start of the bookmarked line', () => {
+		assert.deepStrictEqual(shiftPosition({ line: 5, column: 0 }, change(5, 0, 5, 0, '\n')), { line: 6, column: 0 });
+	});
+
+	test('shifts lines up when lines above are deleted', () => {
+		assert.deepStrictEqual(shiftPosition({ line: 10, column: 2 }, change(3, 0, 6, 0, '')), { line: 7, column: 2 });
+	});
+
+	test('shifts the column on the same line', () => {
+		assert.deepStrictEqual(shiftPosition({ line: 4, column: 10 }, change(4, 2, 4, 5, 'abcdef')), { line: 4, column: 13 });
+	});
+
+	test('collapses a position inside a deleted range to its start', () => {
+		assert.deepStrictEqual(shiftPosition({ line: 4, column: 6 }, change(3, 2, 8, 0, '')), { line: 3, column: 2 });
+	});
+
+	test('applies multiple changes in order', () => {
+		const changes = [change(8, 0, 8, 0, 'z\n'), change(1, 0, 2, 0, '')];
+		assert.deepStrictEqual(applyChanges({ line: 5, column: 1 }, changes), { line: 4, column: 1 });
+	});
+
+	test('moves both ends of a range bookmark', () => {
+		const range = { line: 4, column: 0, endLine: 9, endColumn: 1 };
+		assert.deepStrictEqual(applyChangesToRange(range, [change(0, 0, 0, 0, 'a\n')]), { line: 5, column: 0, endLine: 10, endColumn: 1 });
+		assert.deepStrictEqual(applyChangesToRange(range, [change(6, 0, 8, 0, '')]), { line: 4, column: 0, endLine: 7, endColumn: 1 });
+		assert.deepStrictEqual(applyChangesToRange(range, [change(3, 0, 12, 0, '')]), { line: 3, column: 0, endLine: 3, endColumn: 0 });
+		assert.deepStrictEqual(applyChangesToRange({ line: 4, column: 2 }, [change(0, 0, 0, 0, 'a\n')]), { line: 5, column: 2 });
+	});
+
+	test('creates a range from the selection and ends whole-line selections on the previous line', () => {
+		const lineLength = (line: number) => [10, 20, 30][line];
+		const at = (line: number, character: number) => ({ line, character });
+		assert.deepStrictEqual(rangeEndOf(at(1, 4), at(1, 4), lineLength), {});
+		assert.deepStrictEqual(rangeEndOf(at(0, 2), at(1, 5), lineLength), { endLine: 1, endColumn: 5 });
+		assert.deepStrictEqual(rangeEndOf(at(0, 0), at(2, 0), lineLength), { endLine: 1, endColumn: 20 });
+		// 同一行内从行首开始的选择不会收回
+		assert.deepStrictEqual(rangeEndOf(at(1, 0), at(1, 6), lineLength), { endLine: 1, endColumn: 6 });
+	});
+});
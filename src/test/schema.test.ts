@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import {
+	CURRENT_SCHEMA_VERSION,
+	mergeCollections,
+	migrateCollection,
+	SchemaVersionError,
+	toVersionedCollection
+} from '../schema';
+
+suite('Schema Test Suite', () => {
+	test('returns undefined when nothing is stored', () => {
+		assert.strictEqual(migrateCollection('bookmarks', undefined), undefined);
+	});
+
+	test('migrates unversioned arrays and fills in missing fields', () => {
+		const result = migrateCollection('bookmarks', [
+			{ id: 'a', label: 'a', file: 'src/a.ts', created: '2024-01-02T03:04:05.000Z' },
+			{ label: 'no id' }
+		]);
+		assert.strictEqual(result?.fromVersion, 1);
+		assert.strictEqual(result?.migrated, true);
+		assert.deepStrictEqual(result?.items, [{
+			id: 'a', label: 'a', file: 'src/a.ts', created: '2024-01-02T03:04:05.000Z', priority: 0, line: 0, column: 0
+		}]);
+	});
+
+	test('normalizes groups', () => {
+		const result = migrateCollection('bookmarkGroups', [{ id: 'g', name: 'g', created: 'invalid' }]);
+		assert.deepStrictEqual(result?.items, [{
+			id: 'g', name: 'g', created: new Date(0).toISOString(), priority: 0, isDefault: false
+		}]);
+	});
+
+	test('leaves current data untouched', () => {
+		const stored = toVersionedCollection([{ id: 'a', created: 'x' }]);
+		const result = migrateCollection('bookmarks', stored);
+		assert.strictEqual(result?.migrated, false);
+		assert.strictEqual(result?.items, stored.items);
+	});
+
+	test('refuses versions newer than the current one', () => {
+		assert.throws(
+			() => migrateCollection('bookmarks', { schemaVersion: CURRENT_SCHEMA_VERSION + 1, items: [] }),
+			SchemaVersionError
+		);
+	});
+
+	test('rejects data that is neither an array nor an envelope', () => {
+		assert.throws(() => migrateCollection('bookmarks', { foo: 1 }), /Invalid/);
+	});
+
+	test('merges additions and deletions from both sides by id', () => {
+		const base = toVersionedCollection([{ id: 'a' }, { id: 'b' }]);
+		const external = toVersionedCollection([{ id: 'a' }, { id: 'b' }, { id: 'x' }]);
+		const local = toVersionedCollection([{ id: 'b' }, { id: 'y' }]);
+		const result = mergeCollections(base, external, local);
+		assert.deepStrictEqual(result, {
+			merged: toVersionedCollection([{ id: 'b' }, { id: 'x' }, { id: 'y' }]),
+			conflicts: []
+		});
+	});
+
+	test('reports items changed on both sides and keeps the local version', () => {
+		const base = [{ id: 'a', label: 'old' }];
+		const external = [{ id: 'a', label: 'theirs' }];
+		const local = [{ id: 'a', label: 'mine' }];
+		assert.deepStrictEqual(mergeCollections(base, external, local), {
+			merged: [{ id: 'a', label: 'mine' }],
+			conflicts: ['a']
+		});
+	});
+
+	test('keeps items the other side changed when they were deleted locally', () => {
+		const base = [{ id: 'a', label: 'old' }];
+		const external = [{ id: 'a', label: 'theirs' }];
+		assert.deepStrictEqual(mergeCollections(base, external, [])?.merged, [{ id: 'a', label: 'theirs' }]);
+	});
+});
@@ -0,0 +1,132 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import initSqlJs = require('sql.js');
+import { SqliteStorage } from '../sqliteStorage';
+
+const context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+
+// 等待异步的数据库文件写入完成
+async function settle (storage: SqliteStorage<unknown>): Promise<void> {
+	while (storage['writing']) {
+		await storage['writing'];
+	}
+}
+
+// 替换 vscode.window 中的提示，返回恢复原函数的方法
+function stubWindow (name: 'showErrorMessage' | 'showInformationMessage', reply: (...args: unknown[]) => unknown): () => void {
+	const window = vscode.window as unknown as Record<string, unknown>;
+	const original = window[name];
+	window[name] = async (...args: unknown[]) => reply(...args);
+	return () => { window[name] = original; };
+}
+
+suite('SQLite Storage Test Suite', () => {
+	let dir: string;
+	let file: string;
+
+	setup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-storage-'));
+		file = path.join(dir, 'storage.sqlite');
+	});
+
+	teardown(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	test('round-trips columns and extra fields through the database file', async () => {
+		const bookmarks = {
+			schemaVersion: 2,
+			items: [
+				{ id: 'a', label: 'a', file: 'src/a.ts', line: 3, column: 1, created: '2024-01-02T03:04:05.000Z', priority: 0, tags: ['auth'], endLine: 5, anchor: { text: 'x' } },
+				{ id: 'b', label: 'b', file: 'src/b.ts', line: 0, column: 0, created: '2024-01-02T03:04:05.000Z', priority: 1, groupId: 'g' }
+			]
+		};
+		const groups = [{ id: 'g', name: 'g', isDefault: true, created: '2024-01-02T03:04:05.000Z', priority: 0 }];
+		const storage = new SqliteStorage<unknown>({ type: 'sqlite', location: file }, context);
+		await storage.save('bookmarks', bookmarks);
+		await storage.save('bookmarks:app', [bookmarks.items[1]]);
+		await storage.save('bookmarkGroups', groups);
+		await storage.save('other', { value: 1 });
+		await settle(storage);
+
+		const reopened = new SqliteStorage<unknown>({ type: 'sqlite', location: file }, context);
+		assert.deepStrictEqual(await reopened.load('bookmarks'), bookmarks);
+		assert.deepStrictEqual(await reopened.load('bookmarks:app'), [bookmarks.items[1]]);
+		assert.deepStrictEqual(await reopened.load('bookmarkGroups'), groups);
+		assert.deepStrictEqual(await reopened.load('other'), { value: 1 });
+		assert.deepStrictEqual((await reopened.listKeys()).sort(), ['bookmarkGroups', 'bookmarks', 'bookmarks:app', 'other']);
+	});
+
+	test('only writes rows that changed since the last save', async () => {
+		const storage = new SqliteStorage<unknown>({ type: 'sqlite', location: file }, context);
+		const items = [{ id: 'a', label: 'a' }, { id: 'b', label: 'b' }];
+		await storage.save('bookmarks', items);
+
+		// 直接修改 a 所在的行：a 没有变化，下次保存不会覆盖它；b 被移除后删除对应的行
+		const db = await storage['db'];
+		db.run('UPDATE bookmarks SET label = \'untouched\' WHERE id = \'a\'');
+		await storage.save('bookmarks', [items[0], { id: 'c', label: 'c' }]);
+		assert.deepStrictEqual(await storage.load('bookmarks'), [{ id: 'a', label: 'untouched' }, { id: 'c', label: 'c' }]);
+		await settle(storage);
+	});
+
+	test('migrates an old database and backs it up first', async () => {
+		const SQL = await initSqlJs();
+		const old = new SQL.Database();
+		old.run('CREATE TABLE kv (key TEXT PRIMARY KEY, value TEXT NOT NULL)');
+		old.run('CREATE TABLE collections (key TEXT PRIMARY KEY)');
+		old.run(
+			'CREATE TABLE bookmarks (id TEXT PRIMARY KEY, label TEXT, file TEXT, line INTEGER, col INTEGER, description TEXT, ' +
+			'created TEXT, group_id TEXT, priority INTEGER, sort_order INTEGER NOT NULL, extra TEXT)'
+		);
+		old.run('INSERT INTO collections (key) VALUES (\'bookmarks\')');
+		old.run('INSERT INTO bookmarks (id, label, file, line, col, sort_order, extra) VALUES (\'a\', \'a\', \'src/a.ts\', 2, 0, 0, \'{"tags":["x"]}\')');
+		fs.writeFileSync(file, old.export());
+
+		const storage = new SqliteStorage<unknown>({ type: 'sqlite', location: file }, context);
+		assert.deepStrictEqual(await storage.load('bookmarks'), [{ id: 'a', label: 'a', file: 'src/a.ts', line: 2, column: 0, tags: ['x'] }]);
+		const db = await storage['db'];
+		assert.strictEqual(db.exec('PRAGMA user_version')[0].values[0][0], 2);
+		await settle(storage);
+
+		// 备份的是迁移前的数据库
+		const backups = fs.readdirSync(dir).filter(name => name.startsWith('storage.sqlite.db-v0-') && name.endsWith('.bak'));
+		assert.strictEqual(backups.length, 1);
+		const backup = new SQL.Database(fs.readFileSync(path.join(dir, backups[0])));
+		assert.strictEqual(backup.exec('PRAGMA table_info(bookmarks)')[0].values.some(row => row[1] === 'collection'), false);
+
+		// 迁移后的数据库再次打开时不再迁移
+		const reopened = new SqliteStorage<unknown>({ type: 'sqlite', location: file }, context);
+		assert.strictEqual((await reopened.load('bookmarks') as unknown[]).length, 1);
+		assert.strictEqual(fs.readdirSync(dir).filter(name => name.endsWith('.bak')).length, 1);
+	});
+
+	test('keeps an unreadable database and recovers from the latest valid backup', async () => {
+		const storage = new SqliteStorage<unknown>({ type: 'sqlite', location: file }, context);
+		await storage.save('other', { value: 1 });
+		await settle(storage);
+		await storage.backup('manual');
+		assert.ok(!fs.existsSync(`${file}.tmp`), 'writes through a temporary file');
+
+		fs.writeFileSync(file, 'not a database');
+		const restores = [stubWindow('showErrorMessage', () => '从备份恢复'), stubWindow('showInformationMessage', () => undefined)];
+		try {
+			const reopened = new SqliteStorage<unknown>({ type: 'sqlite', location: file }, context);
+			assert.deepStrictEqual(await reopened.load('other'), { value: 1 });
+			await settle(reopened);
+		} finally {
+			restores.forEach(restore => restore());
+		}
+
+		const corrupt = fs.readdirSync(dir).filter(name => name.startsWith('storage.sqlite.corrupt-'));
+		assert.strictEqual(corrupt.length, 1);
+		assert.strictEqual(fs.readFileSync(path.join(dir, corrupt[0]), 'utf-8'), 'not a database');
+		// 恢复的数据已写回数据库文件
+		const SQL = await initSqlJs();
+		const restored = new SQL.Database(fs.readFileSync(file));
+		assert.deepStrictEqual(restored.exec('SELECT value FROM kv WHERE key = \'other\'')[0].values, [['{"value":1}']]);
+	});
+});
@@ -0,0 +1,155 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { IStorage, StorageFactory } from '../storage';
+
+type Data = Record<string, unknown>;
+
+// 替换 vscode.window 中的提示，返回恢复原函数的方法
+function stubWindow (name: 'showErrorMessage' | 'showWarningMessage' | 'showInformationMessage', reply: (...args: unknown[]) => unknown): () => void {
+	const window = vscode.window as unknown as Record<string, unknown>;
+	const original = window[name];
+	window[name] = async (...args: unknown[]) => reply(...args);
+	return () => { window[name] = original; };
+}
+
+suite('File Storage Test Suite', () => {
+	let dir: string;
+	let file: string;
+	let backupDir: string;
+	let subscriptions: { dispose (): unknown }[];
+	let restores: (() => void)[];
+
+	setup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-storage-'));
+		file = path.join(dir, 'storage.json');
+		backupDir = path.join(dir, 'backups');
+		subscriptions = [];
+		restores = [stubWindow('showInformationMessage', () => undefined), stubWindow('showWarningMessage', () => undefined)];
+	});
+
+	teardown(() => {
+		restores.forEach(restore => restore());
+		subscriptions.forEach(d => d.dispose());
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	const createStorage = (): IStorage<unknown> => StorageFactory.create<unknown>(
+		{ type: 'file', location: file },
+		{ subscriptions } as unknown as vscode.ExtensionContext
+	);
+	const backups = (reason: string) => fs.existsSync(backupDir)
+		? fs.readdirSync(backupDir).filter(name => name.startsWith(`storage.json.${reason}-`))
+		: [];
+	const readJson = (filePath: string): Data => JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+
+	test('writes through a temporary file', async () => {
+		const storage = createStorage();
+		await storage.save('bookmarks', [{ id: 'a' }]);
+		assert.deepStrictEqual(readJson(file), { bookmarks: [{ id: 'a' }] });
+		assert.ok(!fs.existsSync(`${file}.tmp`));
+	});
+
+	test('keeps a corrupt file and recovers from the latest valid backup', async () => {
+		fs.mkdirSync(backupDir);
+		fs.writeFileSync(path.join(backupDir, 'storage.json.auto-2024-01-01T00-00-00-000Z.bak'), JSON.stringify({ bookmarks: [{ id: 'a' }] }));
+		fs.writeFileSync(file, '{"bookmarks": [');
+		let detail: unknown;
+		restores.push(stubWindow('showErrorMessage', (_message, options) => {
+			detail = options;
+			return '从备份恢复';
+		}));
+
+		const storage = createStorage();
+		assert.deepStrictEqual(await storage.load('bookmarks'), [{ id: 'a' }]);
+		assert.ok(detail, 'asks before restoring');
+		assert.deepStrictEqual(readJson(file), { bookmarks: [{ id: 'a' }] });
+		const corrupt = backups('corrupt');
+		assert.strictEqual(corrupt.length, 1);
+		assert.strictEqual(fs.readFileSync(path.join(backupDir, corrupt[0]), 'utf-8'), '{"bookmarks": [');
+	});
+
+	test('starts empty without overwriting a corrupt file when declined', async () => {
+		fs.mkdirSync(backupDir);
+		fs.writeFileSync(path.join(backupDir, 'storage.json.auto-2024-01-01T00-00-00-000Z.bak'), JSON.stringify({ bookmarks: [{ id: 'a' }] }));
+		fs.writeFileSync(file, 'not json');
+		restores.push(stubWindow('showErrorMessage', () => '以空数据启动'));
+
+		const storage = createStorage();
+		assert.strictEqual(await storage.load('bookmarks'), undefined);
+		assert.strictEqual(fs.readFileSync(file, 'utf-8'), 'not json');
+		assert.strictEqual(backups('corrupt').length, 1);
+	});
+
+	test('keeps at most ten automatic backups', async () => {
+		fs.mkdirSync(backupDir);
+		fs.writeFileSync(file, JSON.stringify({ bookmarks: [] }));
+		const hour = 60 * 60 * 1000;
+		for (let i = 1; i <= 12; i++) {
+			const time = new Date(Date.now() - i * hour);
+			const name = path.join(backupDir, `storage.json.auto-${time.toISOString().replace(/[:.]/g, '-')}.bak`);
+			fs.writeFileSync(name, '{}');
+			fs.utimesSync(name, time, time);
+		}
+
+		const storage = createStorage();
+		await storage.save('bookmarks', [{ id: 'a' }]);
+		const auto = await storage.listBackups!();
+		assert.strictEqual(auto.filter(b => b.reason === 'auto').length, 10);
+		// 删除的是最旧的备份，新的备份保存的是覆盖前的内容
+		assert.deepStrictEqual(readJson(auto[0].path), { bookmarks: [] });
+		assert.ok(auto[auto.length - 1].time.getTime() > Date.now() - 10 * hour);
+
+		// 间隔内的再次写入不会再备份
+		await storage.save('bookmarks', [{ id: 'b' }]);
+		assert.strictEqual((await storage.listBackups!()).length, 10);
+	});
+
+	test('merges an external edit with a local edit of the same collection', async () => {
+		const storage = createStorage();
+		let changes = 0;
+		storage.onDidChange!(() => changes++);
+		await storage.save('bookmarks', [{ id: 'a', label: 'a' }, { id: 'b', label: 'b' }]);
+
+		// 其它窗口修改了 b 并添加了 c，本窗口随后修改了 a
+		fs.writeFileSync(file, JSON.stringify({ bookmarks: [{ id: 'a', label: 'a' }, { id: 'b', label: 'b2' }, { id: 'c', label: 'c' }] }));
+		await storage.save('bookmarks', [{ id: 'a', label: 'a2' }, { id: 'b', label: 'b' }]);
+
+		assert.deepStrictEqual(readJson(file), { bookmarks: [{ id: 'a', label: 'a2' }, { id: 'b', label: 'b2' }, { id: 'c', label: 'c' }] });
+		assert.strictEqual(changes, 1);
+		assert.strictEqual(backups('conflict').length, 0);
+	});
+
+	test('prefers the local edit on conflicts and backs up the external version', async () => {
+		const storage = createStorage();
+		let warning: unknown;
+		restores.push(stubWindow('showWarningMessage', message => { warning = message; }));
+		await storage.save('bookmarks', [{ id: 'a', label: 'a' }]);
+
+		const external = JSON.stringify({ bookmarks: [{ id: 'a', label: 'external' }] });
+		fs.writeFileSync(file, external);
+		await storage.save('bookmarks', [{ id: 'a', label: 'local' }]);
+
+		assert.deepStrictEqual(readJson(file), { bookmarks: [{ id: 'a', label: 'local' }] });
+		assert.ok(String(warning).includes('bookmarks'));
+		const conflict = backups('conflict');
+		assert.strictEqual(conflict.length, 1);
+		assert.strictEqual(fs.readFileSync(path.join(backupDir, conflict[0]), 'utf-8'), external);
+	});
+
+	test('backs up the current data before restoring a backup', async () => {
+		const storage = createStorage();
+		await storage.save('bookmarks', [{ id: 'a' }]);
+		const saved = await storage.backup('manual');
+		await storage.save('bookmarks', [{ id: 'b' }]);
+
+		await storage.restoreBackup!(saved!);
+		assert.deepStrictEqual(await storage.load('bookmarks'), [{ id: 'a' }]);
+		assert.deepStrictEqual(readJson(file), { bookmarks: [{ id: 'a' }] });
+		const beforeRestore = (await storage.listBackups!()).filter(b => b.reason === 'before-restore');
+		assert.strictEqual(beforeRestore.length, 1);
+		assert.deepStrictEqual(readJson(beforeRestore[0].path), { bookmarks: [{ id: 'b' }] });
+	});
+});
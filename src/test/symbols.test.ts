@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { captureSymbol, findSymbolByPath, resolveSymbolLine, SymbolNode } from '../symbols';
+
+const CLASS = 4;
+const METHOD = 5;
+const FUNCTION = 11;
+
+function node (name: string, kind: number, start: number, end: number, children: SymbolNode[] = []): SymbolNode {
+	return { name, kind, range: { start: { line: start }, end: { line: end } }, children };
+}
+
+suite('Symbols Test Suite', () => {
+	const symbols = [
+		node('helper', FUNCTION, 0, 4),
+		node('BookmarkTreeProvider', CLASS, 6, 40, [
+			node('refresh', METHOD, 8, 10),
+			node('handleDrop', METHOD, 20, 35)
+		])
+	];
+
+	test('captures the innermost enclosing symbol with its container path', () => {
+		assert.deepStrictEqual(captureSymbol(symbols, 23), { path: ['BookmarkTreeProvider', 'handleDrop'], kind: METHOD, offset: 3 });
+		assert.deepStrictEqual(captureSymbol(symbols, 12), { path: ['BookmarkTreeProvider'], kind: CLASS, offset: 6 });
+		assert.strictEqual(captureSymbol(symbols, 5), undefined);
+	});
+
+	test('prefers a symbol of the same kind when names repeat', () => {
+		const overloaded = [node('load', CLASS, 0, 2), node('load', FUNCTION, 4, 8)];
+		assert.strictEqual(findSymbolByPath(overloaded, ['load'], FUNCTION)?.range.start.line, 4);
+		assert.strictEqual(findSymbolByPath(overloaded, ['load'], METHOD)?.range.start.line, 0);
+		assert.strictEqual(findSymbolByPath(overloaded, ['missing'], FUNCTION), undefined);
+	});
+
+	test('follows the symbol to its new location and keeps the offset inside it', () => {
+		const moved = [
+			node('BookmarkTreeProvider', CLASS, 0, 60, [
+				node('handleDrop', METHOD, 42, 44),
+				node('refresh', METHOD, 50, 52)
+			])
+		];
+		const symbol = { path: ['BookmarkTreeProvider', 'handleDrop'], kind: METHOD, offset: 1 };
+		assert.strictEqual(resolveSymbolLine(moved, symbol), 43);
+		assert.strictEqual(resolveSymbolLine(moved, { ...symbol, offset: 10 }), 44);
+		assert.strictEqual(resolveSymbolLine(moved, { ...symbol, path: ['Other', 'handleDrop'] }), undefined);
+	});
+});
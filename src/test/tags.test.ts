@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import {
+	collectTags,
+	hasAllTags,
+	matchesTagPrefixes,
+	normalizeTag,
+	parseTags,
+	replaceTags,
+	splitTagQuery
+} from '../tags';
+
+suite('Tags Test Suite', () => {
+	test('normalizes and parses user input', () => {
+		assert.strictEqual(normalizeTag('  #TODO refactor '), 'TODO-refactor');
+		assert.deepStrictEqual(parseTags('#auth, perf，auth  todo'), ['auth', 'perf', 'todo']);
+		assert.deepStrictEqual(parseTags(' , # '), []);
+	});
+
+	test('counts tags across bookmarks sorted by name', () => {
+		assert.deepStrictEqual(collectTags([{ tags: ['perf', 'auth'] }, {}, { tags: ['auth'] }]), [
+			{ tag: 'auth', count: 2 },
+			{ tag: 'perf', count: 1 }
+		]);
+	});
+
+	test('filters by all tags and by tag prefixes ignoring case', () => {
+		assert.ok(hasAllTags(['auth', 'Perf'], ['perf', 'AUTH']));
+		assert.ok(hasAllTags(undefined, []));
+		assert.ok(!hasAllTags(['auth'], ['auth', 'perf']));
+		assert.ok(matchesTagPrefixes(['TODO-refactor', 'auth'], ['todo', 'au']));
+		assert.ok(!matchesTagPrefixes(['auth'], ['perf']));
+	});
+
+	test('renames and merges tags without duplicates', () => {
+		assert.deepStrictEqual(replaceTags(['perf', 'authn', 'authz'], ['authn', 'authz'], 'auth'), ['perf', 'auth']);
+		assert.deepStrictEqual(replaceTags(['auth', 'authn'], ['authn'], 'auth'), ['auth']);
+		assert.strictEqual(replaceTags(['perf'], ['auth'], 'security'), undefined);
+		assert.strictEqual(replaceTags(undefined, ['auth'], 'security'), undefined);
+	});
+
+	test('splits tag words out of a search query', () => {
+		assert.deepStrictEqual(splitTagQuery('#auth token # #perf refresh'), { tags: ['auth', 'perf'], text: 'token refresh' });
+	});
+});
@@ -0,0 +1,27 @@
+import * as assert from 'assert';
+import { checkBookmark, describeProblem, rankCandidates } from '../validation';
+
+suite('Validation Test Suite', () => {
+	test('reports missing files and lines past the end of the file', () => {
+		assert.strictEqual(checkBookmark({ line: 0 }, undefined), 'missingFile');
+		assert.strictEqual(checkBookmark({ line: 9 }, 10), undefined);
+		assert.strictEqual(checkBookmark({ line: 10 }, 10), 'lineOutOfRange');
+		assert.strictEqual(checkBookmark({ line: 2, endLine: 12 }, 10), 'lineOutOfRange');
+		assert.ok(describeProblem('missingFile').includes('文件不存在'));
+	});
+
+	test('ranks candidates by matching trailing path segments', () => {
+		const ranked = rankCandidates('src/auth/login.ts', [
+			'/repo/test/login.ts',
+			'/repo/packages/web/src/auth/login.ts',
+			'/repo/lib/auth/login.ts',
+			'/repo/login.ts'
+		]);
+		assert.deepStrictEqual(ranked, [
+			'/repo/packages/web/src/auth/login.ts',
+			'/repo/lib/auth/login.ts',
+			'/repo/login.ts',
+			'/repo/test/login.ts'
+		]);
+	});
+});
@@ -0,0 +1,25 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { isSameOrInside, mapRenamedPath } from '../workspacePaths';
+
+const root = path.join(path.sep, 'repo');
+const file = (...segments: string[]) => path.join(root, ...segments);
+
+suite('Workspace Paths Test Suite', () => {
+	test('checks whether a path is inside a folder', () => {
+		assert.ok(isSameOrInside(file('src', 'a.ts'), file('src')));
+		assert.ok(isSameOrInside(file('src'), file('src')));
+		assert.ok(!isSameOrInside(file('src-old', 'a.ts'), file('src')));
+	});
+
+	test('maps renamed files and files inside renamed folders', () => {
+		const renames = [
+			{ oldPath: file('src', 'a.ts'), newPath: file('src', 'b.ts') },
+			{ oldPath: file('lib'), newPath: file('packages', 'lib') }
+		];
+		assert.strictEqual(mapRenamedPath(file('src', 'a.ts'), renames), file('src', 'b.ts'));
+		assert.strictEqual(mapRenamedPath(file('lib', 'util', 'x.ts'), renames), file('packages', 'lib', 'util', 'x.ts'));
+		assert.strictEqual(mapRenamedPath(file('library', 'x.ts'), renames), undefined);
+		assert.strictEqual(mapRenamedPath(file('src', 'a.tsx'), renames), undefined);
+	});
+});
@@ -0,0 +1,38 @@
+/**
+ * 失效书签的检查：书签所在的文件已被删除或重命名，或者行号超出了文件末尾。
+ * 与内容锚点无法定位（orphaned）不同，这类书签无法跳转，需要重新定位或删除
+ */
+
+export type BookmarkProblem = 'missingFile' | 'lineOutOfRange';
+
+/**
+ * 检查书签在文件中的位置；lineCount 为 undefined 表示文件不存在
+ */
+export function checkBookmark (bookmark: { line: number, endLine?: number }, lineCount: number | undefined): BookmarkProblem | undefined {
+  if (lineCount === undefined) {
+    return 'missingFile';
+  }
+  return Math.max(bookmark.line, bookmark.endLine ?? 0) >= lineCount ? 'lineOutOfRange' : undefined;
+}
+
+export function describeProblem (problem: BookmarkProblem): string {
+  return problem === 'missingFile' ? '文件不存在（可能已被删除、重命名或移动）' : '行号超出了文件末尾';
+}
+
+/**
+ * 按文件名找到的候选文件按与原路径的相似程度排序：末尾相同的路径段越多越靠前，其次路径越短越靠前
+ */
+export function rankCandidates (originalFile: string, candidates: string[]): string[] {
+  const segments = (file: string) => file.split(/[\\/]+/).filter(segment => segment);
+  const original = segments(originalFile);
+  const commonSuffix = (file: string) => {
+    const parts = segments(file);
+    let count = 0;
+    while (count < parts.length && count < original.length &&
+      parts[parts.length - 1 - count] === original[original.length - 1 - count]) {
+      count++;
+    }
+    return count;
+  };
+  return [...candidates].sort((a, b) => commonSuffix(b) - commonSuffix(a) || segments(a).length - segments(b).length);
+}
@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { Bookmark } from './bookmarkManager';
+import { Bookmark, lineSpanOf } from './bookmarkManager';
 
 export interface LinkNode {
     id: string;
@@ -9,6 +9,10 @@ export interface LinkNode {
     file?: string;
     line?: number;
     column?: number;
+    endLine?: number;
+    endColumn?: number;
+    span?: string;      // 位置的显示文本，例如 src/a.ts:12-20
+    tags?: string[];    // 书签的标签，用于按标签筛选
     x?: number;
     y?: number;
 }
@@ -111,14 +115,24 @@ export class VisualizationManager {
             bookmarkId: bookmark.id,
             file: bookmark.file,
             line: bookmark.line,
-            column: bookmark.column
+            column: bookmark.column,
+            endLine: bookmark.endLine,
+            endColumn: bookmark.endColumn,
+            span: `${bookmark.file}:${lineSpanOf(bookmark)}`,
+            tags: bookmark.tags
         }));
 
-        // 合并现有节点和书签节点
+        // 合并现有节点和书签节点：已有的书签节点保留布局位置，更新名称与位置
         const existingNodeIds = new Set(this.data.nodes.map(n => n.id));
         const newNodes = bookmarkNodes.filter(n => !existingNodeIds.has(n.id));
-        
-        this.data.nodes = [...this.data.nodes.filter(n => !n.bookmarkId || bookmarks.some(b => b.id === n.bookmarkId)), ...newNodes];
+        const currentNodes = new Map(bookmarkNodes.map(n => [n.id, n]));
+
+        this.data.nodes = [
+            ...this.data.nodes
+                .filter(n => !n.bookmarkId || bookmarks.some(b => b.id === n.bookmarkId))
+                .map(n => n.bookmarkId && currentNodes.has(n.id) ? { ...n, ...currentNodes.get(n.id) } : n),
+            ...newNodes
+        ];
 
         // 发送数据到 webview
         if (this.panel) {
@@ -194,6 +208,9 @@ export class VisualizationManager {
         <button id="saveBtn">保存</button>
         <button id="exportBtn">导出</button>
         <button id="importBtn">导入</button>
+        <select id="tagFilter" title="按标签筛选">
+            <option value="">全部标签</option>
+        </select>
         <input type="file" id="importFile" accept=".json" style="display: none;">
     </div>
     <div id="visualization"></div>
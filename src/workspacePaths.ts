@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * 书签中保存的可移植路径：工作区内的文件保存为相对所属工作区文件夹的路径（统一使用 /）
+ * 并记录文件夹名称；工作区之外的文件仍保存绝对路径。
+ */
+export interface PortablePath {
+  file: string
+  workspaceFolder?: string
+}
+
+export function toPortablePath (absolutePath: string): PortablePath {
+  const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(absolutePath));
+  if (!folder) {
+    return { file: absolutePath };
+  }
+  const relative = path.relative(folder.uri.fsPath, absolutePath);
+  return { file: relative.split(path.sep).join('/'), workspaceFolder: folder.name };
+}
+
+/**
+ * 将可移植路径解析为当前环境下的绝对路径：
+ * 优先使用同名的工作区文件夹；只有一个文件夹时直接使用（仓库被克隆到了不同名的目录）；
+ * 多根工作区中找不到同名文件夹时，使用第一个存在该文件的文件夹。
+ */
+export function resolvePortablePath (portable: PortablePath): string {
+  if (path.isAbsolute(portable.file)) {
+    return portable.file;
+  }
+
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  if (folders.length === 0) {
+    return portable.file;
+  }
+
+  const named = folders.find(f => f.name === portable.workspaceFolder);
+  if (named) {
+    return path.join(named.uri.fsPath, portable.file);
+  }
+  if (folders.length === 1) {
+    return path.join(folders[0].uri.fsPath, portable.file);
+  }
+
+  const existing = folders.find(f => fs.existsSync(path.join(f.uri.fsPath, portable.file)));
+  return path.join((existing ?? folders[0]).uri.fsPath, portable.file);
+}
+
+/**
+ * 路径是否为 folder 本身或位于 folder 之内
+ */
+export function isSameOrInside (filePath: string, folder: string): boolean {
+  const prefix = folder.endsWith(path.sep) ? folder : folder + path.sep;
+  return filePath === folder || filePath.startsWith(prefix);
+}
+
+/**
+ * 文件或文件夹重命名（移动）后文件的新路径；文件夹重命名时其中的所有文件随之移动。不受影响时返回 undefined
+ */
+export function mapRenamedPath (filePath: string, renames: { oldPath: string, newPath: string }[]): string | undefined {
+  const rename = renames.find(r => isSameOrInside(filePath, r.oldPath));
+  return rename && path.join(rename.newPath, path.relative(rename.oldPath, filePath));
+}